@@ -0,0 +1,379 @@
+import { createHash, createHmac } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { QueryTarget } from "./firestore-query.js";
+import { isPlainObject, sanitizeFirestoreValue } from "./firestore-values.js";
+
+const FIELD_ACTIONS = ["redact", "hash"] as const;
+
+export type FieldAction = typeof FIELD_ACTIONS[number];
+
+const REDACTED_VALUE = "[REDACTED]";
+
+/**
+ * Shape of the JSON file named by FIRESTORE_MCP_POLICY_FILE. Collection patterns are
+ * slash-separated paths where `*` matches one segment (or part of one) and `**` any number
+ * of segments; a rule also covers everything nested below the collections it matches.
+ * Field patterns without a dot match that field name at any depth.
+ */
+export type AccessPolicyConfig = {
+  collections?: {
+    allow?: string[];
+    deny?: string[];
+  };
+  collectionGroups?: string[];
+  fields?: Partial<Record<FieldAction, string[]>>;
+  hashSalt?: string;
+};
+
+type PathRule = {
+  pattern: string;
+  segments: string[];
+};
+
+/** Extra allow list layered on top of the file, e.g. for one API key; every scope must allow a collection. */
+export type CollectionScope = {
+  label: string;
+  allow: string[];
+  collectionGroups?: string[];
+};
+
+type FieldRule = PathRule & {
+  action: FieldAction;
+  anyDepth: boolean;
+};
+
+export class PolicyDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PolicyDeniedError";
+  }
+}
+
+export class AccessPolicy {
+  private readonly allow?: PathRule[];
+  private readonly deny: PathRule[];
+  private readonly collectionGroups: Set<string>;
+  private readonly fieldRules: FieldRule[];
+  private readonly hashSalt?: string;
+
+  constructor(
+    private readonly config: AccessPolicyConfig = {},
+    private readonly scopes: CollectionScope[] = [],
+  ) {
+    this.allow = config.collections?.allow?.map(toPathRule);
+    this.deny = (config.collections?.deny ?? []).map(toPathRule);
+    this.collectionGroups = new Set(config.collectionGroups ?? []);
+    this.fieldRules = FIELD_ACTIONS.flatMap((action) =>
+      (config.fields?.[action] ?? []).map((pattern) => ({
+        ...toPathRule(pattern.replace(/\./g, "/")),
+        pattern,
+        action,
+        anyDepth: !pattern.includes("."),
+      })),
+    );
+    this.hashSalt = config.hashSalt;
+  }
+
+  /** Returns a copy of this policy that additionally requires `scope` to allow each collection. */
+  restrictTo(scope: CollectionScope): AccessPolicy {
+    return new AccessPolicy(this.config, [...this.scopes, scope]);
+  }
+
+  /** True when the policy restricts collections at all, i.e. collection groups need explicit listing. */
+  get restrictsCollections(): boolean {
+    return this.allow !== undefined || this.deny.length > 0;
+  }
+
+  describe(): string {
+    const counts = [
+      this.allow ? `${this.allow.length} allow` : "allow all",
+      `${this.deny.length} deny`,
+      `${this.collectionGroups.size} collection groups`,
+      `${this.fieldRules.length} protected fields`,
+    ];
+    return counts.join(", ");
+  }
+
+  isCollectionAllowed(collectionPath: string): boolean {
+    return this.checkCollection(collectionPath) === undefined;
+  }
+
+  assertCollection(collectionPath: string): void {
+    const reason = this.checkCollection(collectionPath);
+    if (reason) {
+      throw new PolicyDeniedError(reason);
+    }
+  }
+
+  /** Documents inherit the access of the collection that contains them. */
+  assertDocument(documentPath: string): void {
+    const reason = this.checkCollection(documentPath.split("/").slice(0, -1).join("/"));
+    if (reason) {
+      throw new PolicyDeniedError(reason.replace(/^Collection '[^']*'/, `Document '${documentPath}'`));
+    }
+  }
+
+  assertQueryTarget(target: QueryTarget): void {
+    if (target.collectionPath) {
+      this.assertCollection(target.collectionPath);
+      return;
+    }
+
+    const group = target.collectionGroup!;
+    if (this.restrictsCollections && !this.collectionGroups.has(group)) {
+      throw new PolicyDeniedError(
+        `Collection group '${group}' is not allowed by the access policy. List it under collectionGroups to permit queries across every '${group}' collection.`,
+      );
+    }
+
+    const scope = this.scopes.find((candidate) => !candidate.collectionGroups?.includes(group));
+    if (scope) {
+      throw new PolicyDeniedError(`Collection group '${group}' is not allowed for ${scope.label}.`);
+    }
+  }
+
+  /**
+   * True when `target` is a collection group that may also match collections the policy blocks,
+   * e.g. users/x/private/y/orders when users/x/private is denied. Each result must then be
+   * checked with allowedDocuments.
+   */
+  needsDocumentCheck(target: QueryTarget): boolean {
+    return target.collectionGroup !== undefined && (this.restrictsCollections || this.scopes.length > 0);
+  }
+
+  /** Drops query results that live in collections the policy blocks. */
+  allowedDocuments<T extends { ref: { parent: { path: string } } }>(target: QueryTarget, docs: T[]): T[] {
+    return this.needsDocumentCheck(target) ? docs.filter((doc) => this.isCollectionAllowed(doc.ref.parent.path)) : docs;
+  }
+
+  /** Server-side aggregates and counts cannot skip individual documents, so they need a target without document checks. */
+  assertAggregatable(target: QueryTarget, usage: string): void {
+    if (this.needsDocumentCheck(target)) {
+      throw new PolicyDeniedError(
+        `${usage} cannot run on collection group '${target.collectionGroup}' because it may include collections the access policy blocks. Query a collection path instead.`,
+      );
+    }
+  }
+
+  fieldAction(fieldPath: string): FieldAction | undefined {
+    const segments = fieldPath.split(".");
+    let action: FieldAction | undefined;
+
+    // A rule on a map field also protects everything nested inside it.
+    for (let length = 1; length <= segments.length; length += 1) {
+      const prefix = segments.slice(0, length);
+      for (const rule of this.fieldRules) {
+        const matches = rule.anyDepth
+          ? matchSegment(rule.segments[0]!, prefix[prefix.length - 1]!)
+          : matchSegments(rule.segments, prefix);
+        if (matches && (action === undefined || rule.action === "redact")) {
+          action = rule.action;
+        }
+      }
+    }
+
+    return action;
+  }
+
+  /**
+   * Rejects protected fields where their values would leak through query behaviour
+   * (filters, ordering, page tokens, aggregates). Hashed fields can opt in, e.g. for grouping.
+   */
+  assertFieldUsable(fieldPath: string, usage: string, options: { allowHashed?: boolean } = {}): void {
+    const action = this.fieldAction(fieldPath);
+    if (action === "redact" || (action === "hash" && !options.allowHashed)) {
+      throw new PolicyDeniedError(`Field '${fieldPath}' is protected by the access policy (${action}) and cannot be used in ${usage}.`);
+    }
+  }
+
+  /** sanitizeFirestoreValue followed by redaction; `fieldPath` locates `value` within its document. */
+  sanitize(value: unknown, fieldPath = ""): unknown {
+    return this.protect(fieldPath, sanitizeFirestoreValue(value));
+  }
+
+  /** Redacts or hashes an already sanitized value located at `fieldPath`. */
+  protect(fieldPath: string, value: unknown): unknown {
+    if (this.fieldRules.length === 0) {
+      return value;
+    }
+
+    const action = fieldPath ? this.fieldAction(fieldPath) : undefined;
+    if (action === "redact") {
+      return REDACTED_VALUE;
+    }
+    if (action === "hash") {
+      return this.hash(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.protect(fieldPath, item));
+    }
+
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, nestedValue] of Object.entries(value)) {
+        result[key] = this.protect(fieldPath ? `${fieldPath}.${key}` : key, nestedValue);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  private hash(value: unknown): string | null {
+    if (value === null) {
+      return null;
+    }
+
+    const input = JSON.stringify(value);
+    const digest = this.hashSalt
+      ? createHmac("sha256", this.hashSalt).update(input).digest("hex")
+      : createHash("sha256").update(input).digest("hex");
+    return `sha256:${digest.slice(0, 16)}`;
+  }
+
+  private checkCollection(collectionPath: string): string | undefined {
+    const denied = findCollectionRule(this.deny, collectionPath);
+    if (denied) {
+      return `Collection '${collectionPath}' is denied by access policy rule '${denied.pattern}'.`;
+    }
+
+    if (this.allow && !findCollectionRule(this.allow, collectionPath)) {
+      return `Collection '${collectionPath}' is not in the access policy's allow list.`;
+    }
+
+    const scope = this.scopes.find(
+      (candidate) => !findCollectionRule(candidate.allow.map(toPathRule), collectionPath),
+    );
+    if (scope) {
+      return `Collection '${collectionPath}' is not allowed for ${scope.label}.`;
+    }
+
+    return undefined;
+  }
+}
+
+/** Reads the policy file once at startup; without FIRESTORE_MCP_POLICY_FILE everything is allowed. */
+export function loadAccessPolicy(path = process.env.FIRESTORE_MCP_POLICY_FILE): AccessPolicy {
+  if (path === undefined || path.trim() === "") {
+    return new AccessPolicy();
+  }
+
+  const label = `Access policy file '${path.trim()}'`;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path.trim(), "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${label} could not be read: ${reason}`);
+  }
+
+  const policy = new AccessPolicy(parseAccessPolicyConfig(parsed, label));
+  console.error(`${label} loaded (${policy.describe()})`);
+  return policy;
+}
+
+function parseAccessPolicyConfig(value: unknown, label: string): AccessPolicyConfig {
+  if (!isPlainObject(value)) {
+    throw new Error(`${label} must contain a JSON object.`);
+  }
+
+  const unknownKeys = Object.keys(value).filter(
+    (key) => !["collections", "collectionGroups", "fields", "hashSalt"].includes(key),
+  );
+  if (unknownKeys.length > 0) {
+    throw new Error(`${label} has unknown keys: ${unknownKeys.join(", ")}.`);
+  }
+
+  const { collections, collectionGroups, fields, hashSalt } = value;
+
+  if (collections !== undefined && !isPlainObject(collections)) {
+    throw new Error(`${label}: collections must be an object with allow and/or deny.`);
+  }
+
+  if (fields !== undefined && !isPlainObject(fields)) {
+    throw new Error(`${label}: fields must be an object with redact and/or hash.`);
+  }
+
+  if (hashSalt !== undefined && (typeof hashSalt !== "string" || hashSalt === "")) {
+    throw new Error(`${label}: hashSalt must be a non-empty string.`);
+  }
+
+  const groups = parsePatternList(collectionGroups, `${label}: collectionGroups`);
+  if (groups?.some((group) => group.includes("/") || group.includes("*"))) {
+    throw new Error(`${label}: collectionGroups must be plain collection ids (e.g. 'orders').`);
+  }
+
+  return {
+    collections: {
+      allow: parsePatternList(collections?.["allow"], `${label}: collections.allow`),
+      deny: parsePatternList(collections?.["deny"], `${label}: collections.deny`),
+    },
+    collectionGroups: groups,
+    fields: {
+      redact: parsePatternList(fields?.["redact"], `${label}: fields.redact`),
+      hash: parsePatternList(fields?.["hash"], `${label}: fields.hash`),
+    },
+    hashSalt,
+  };
+}
+
+function parsePatternList(value: unknown, label: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string" && item.trim() !== "")) {
+    throw new Error(`${label} must be an array of non-empty strings.`);
+  }
+
+  return value.map((item: string) => item.trim().replace(/^\/+|\/+$/g, ""));
+}
+
+function toPathRule(pattern: string): PathRule {
+  return { pattern, segments: pattern.split("/") };
+}
+
+/** A collection is covered by a rule matching it or any ancestor collection. */
+function findCollectionRule(rules: PathRule[], collectionPath: string): PathRule | undefined {
+  const segments = collectionPath.split("/");
+  for (let length = 1; length <= segments.length; length += 2) {
+    const prefix = segments.slice(0, length);
+    const rule = rules.find((candidate) => matchSegments(candidate.segments, prefix));
+    if (rule) {
+      return rule;
+    }
+  }
+
+  return undefined;
+}
+
+function matchSegments(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) {
+    return path.length === 0;
+  }
+
+  const [head, ...rest] = pattern;
+  if (head === "**") {
+    for (let skip = 0; skip <= path.length; skip += 1) {
+      if (matchSegments(rest, path.slice(skip))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return path.length > 0 && matchSegment(head!, path[0]!) && matchSegments(rest, path.slice(1));
+}
+
+function matchSegment(pattern: string, segment: string): boolean {
+  if (!pattern.includes("*")) {
+    return pattern === segment;
+  }
+
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(segment);
+}
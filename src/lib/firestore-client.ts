@@ -1,29 +1,163 @@
+import { readFileSync } from "node:fs";
 import { Firestore } from "@google-cloud/firestore";
+import type { Settings } from "@google-cloud/firestore";
+
+const DEFAULT_EMULATOR_PROJECT_ID = "demo-firestore-mcp";
+
+type CredentialSource =
+  | "emulator"
+  | "service-account-json"
+  | "service-account-base64"
+  | "credentials-file"
+  | "application-default";
+
+type ResolvedSettings = {
+  source: CredentialSource;
+  settings: Settings;
+};
 
 let cachedFirestore: Firestore | null = null;
 
 function initializeFirestore(): Firestore {
-  const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT;
-  if (!serviceAccountJson) {
-    throw new Error("FIREBASE_SERVICE_ACCOUNT environment variable is required");
+  const { source, settings } = resolveSettings();
+  const firestore = new Firestore(settings);
+
+  // stdout carries the MCP protocol in stdio mode, so diagnostics go to stderr.
+  console.error(
+    `Firestore client initialized using ${describeSource(source)} (project: ${settings.projectId ?? "auto-detected"})`,
+  );
+
+  return firestore;
+}
+
+function resolveSettings(): ResolvedSettings {
+  const explicitProjectId = readEnv("FIRESTORE_PROJECT_ID") ?? readEnv("GOOGLE_CLOUD_PROJECT") ?? readEnv("GCLOUD_PROJECT");
+
+  const emulatorHost = readEnv("FIRESTORE_EMULATOR_HOST");
+  if (emulatorHost) {
+    // The Firestore SDK picks up FIRESTORE_EMULATOR_HOST itself and skips authentication.
+    return {
+      source: "emulator",
+      settings: { projectId: explicitProjectId ?? DEFAULT_EMULATOR_PROJECT_ID },
+    };
+  }
+
+  const serviceAccount = readEnv("FIREBASE_SERVICE_ACCOUNT");
+  if (serviceAccount) {
+    const isInlineJson = serviceAccount.startsWith("{");
+    const credentials = isInlineJson
+      ? parseServiceAccount(serviceAccount, "FIREBASE_SERVICE_ACCOUNT")
+      : parseServiceAccount(decodeBase64(serviceAccount, "FIREBASE_SERVICE_ACCOUNT"), "FIREBASE_SERVICE_ACCOUNT");
+
+    return {
+      source: isInlineJson ? "service-account-json" : "service-account-base64",
+      settings: {
+        projectId: explicitProjectId ?? requireProjectId(credentials, "FIREBASE_SERVICE_ACCOUNT"),
+        credentials: credentials as Record<string, string>,
+      },
+    };
+  }
+
+  const serviceAccountBase64 = readEnv("FIREBASE_SERVICE_ACCOUNT_BASE64");
+  if (serviceAccountBase64) {
+    const credentials = parseServiceAccount(
+      decodeBase64(serviceAccountBase64, "FIREBASE_SERVICE_ACCOUNT_BASE64"),
+      "FIREBASE_SERVICE_ACCOUNT_BASE64",
+    );
+
+    return {
+      source: "service-account-base64",
+      settings: {
+        projectId: explicitProjectId ?? requireProjectId(credentials, "FIREBASE_SERVICE_ACCOUNT_BASE64"),
+        credentials: credentials as Record<string, string>,
+      },
+    };
+  }
+
+  const credentialsFile = readEnv("GOOGLE_APPLICATION_CREDENTIALS");
+  if (credentialsFile) {
+    let contents: string;
+    try {
+      contents = readFileSync(credentialsFile, "utf8");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Unable to read GOOGLE_APPLICATION_CREDENTIALS file '${credentialsFile}': ${reason}`);
+    }
+
+    const credentials = parseServiceAccount(contents, "GOOGLE_APPLICATION_CREDENTIALS");
+    const fileProjectId = credentials["project_id"];
+
+    return {
+      source: "credentials-file",
+      settings: {
+        projectId: explicitProjectId ?? (typeof fileProjectId === "string" && fileProjectId.trim() !== "" ? fileProjectId : undefined),
+        keyFilename: credentialsFile,
+      },
+    };
   }
 
-  let credentials: Record<string, unknown>;
+  // Fall back to Application Default Credentials (gcloud auth, metadata server, workload identity).
+  return {
+    source: "application-default",
+    settings: explicitProjectId ? { projectId: explicitProjectId } : {},
+  };
+}
+
+function parseServiceAccount(json: string, variableName: string): Record<string, unknown> {
+  let parsed: unknown;
   try {
-    credentials = JSON.parse(serviceAccountJson) as Record<string, unknown>;
+    parsed = JSON.parse(json);
   } catch (error) {
-    throw new Error("Invalid JSON in FIREBASE_SERVICE_ACCOUNT environment variable");
+    throw new Error(`Invalid JSON in ${variableName}`);
   }
 
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${variableName} must contain a service account JSON object`);
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+function decodeBase64(value: string, variableName: string): string {
+  const decoded = Buffer.from(value, "base64").toString("utf8").trim();
+  if (!decoded.startsWith("{")) {
+    throw new Error(`${variableName} must be service account JSON or its base64 encoding`);
+  }
+
+  return decoded;
+}
+
+function requireProjectId(credentials: Record<string, unknown>, variableName: string): string {
   const projectId = credentials["project_id"];
   if (typeof projectId !== "string" || projectId.trim() === "") {
-    throw new Error("FIREBASE_SERVICE_ACCOUNT must include a project_id");
+    throw new Error(`${variableName} must include a project_id`);
+  }
+
+  return projectId;
+}
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") {
+    return undefined;
   }
 
-  return new Firestore({
-    projectId,
-    credentials: credentials as Record<string, string>,
-  });
+  return value.trim();
+}
+
+function describeSource(source: CredentialSource): string {
+  switch (source) {
+    case "emulator":
+      return `Firestore emulator at ${process.env.FIRESTORE_EMULATOR_HOST}`;
+    case "service-account-json":
+      return "inline service account JSON (FIREBASE_SERVICE_ACCOUNT)";
+    case "service-account-base64":
+      return "base64-encoded service account JSON";
+    case "credentials-file":
+      return `credentials file (GOOGLE_APPLICATION_CREDENTIALS=${process.env.GOOGLE_APPLICATION_CREDENTIALS})`;
+    case "application-default":
+      return "Application Default Credentials";
+  }
 }
 
 export function getFirestore(): Firestore {
@@ -0,0 +1,214 @@
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResult, GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { WHERE_OPERATORS } from "./firestore-query.js";
+import { ResourceError } from "./firestore-resources.js";
+import { isPlainObject } from "./firestore-values.js";
+import { parseCollectionPath, parseDocumentPath } from "./tool-helpers.js";
+
+const SCHEMA_SAMPLE_SIZE = 20;
+const SAMPLE_DOCUMENTS = 5;
+
+// Keeps the embedded context small enough to leave room for the conversation.
+const CONTEXT_MAX_TOKENS = 4000;
+
+export const FIRESTORE_PROMPTS: Prompt[] = [
+  {
+    name: "explore_collection",
+    title: "Explore a collection",
+    description: "Summarize what a collection stores and suggest useful queries, starting from its sampled schema and a few documents.",
+    arguments: [
+      { name: "path", description: "Collection path, e.g. 'orders' or 'users/abc/orders'.", required: true },
+    ],
+  },
+  {
+    name: "investigate_document",
+    title: "Investigate a document",
+    description: "Explain one document, compare it with the rest of its collection and look for related data.",
+    arguments: [
+      { name: "path", description: "Document path, e.g. 'orders/o-1042'.", required: true },
+    ],
+  },
+  {
+    name: "build_report",
+    title: "Build a grouped report",
+    description: "Plan and run a group_by_aggregate report on a collection grouped by one field, then present it as a table.",
+    arguments: [
+      { name: "collection", description: "Collection path to report on.", required: true },
+      { name: "field", description: "Field path to group by; timestamps can be bucketed by day, week or month.", required: true },
+      { name: "metric", description: "Optional numeric field path to sum and average per group." },
+    ],
+  },
+];
+
+/** Calls a read tool on behalf of the prompt, under the caller's policy and read budget. */
+export type PromptToolRunner = (name: string, args: Record<string, unknown>) => Promise<CallToolResult>;
+
+/** Fills a prompt template with live context; failures become JSON-RPC errors. */
+export async function buildPrompt(
+  name: string,
+  args: Record<string, string>,
+  runTool: PromptToolRunner,
+): Promise<GetPromptResult> {
+  switch (name) {
+    case "explore_collection":
+      return exploreCollection(readPathArgument(() => parseCollectionPath(args["path"], "path")), runTool);
+    case "investigate_document":
+      return investigateDocument(readPathArgument(() => parseDocumentPath(args["path"], "path")), runTool);
+    case "build_report":
+      return buildReport(
+        readPathArgument(() => parseCollectionPath(args["collection"], "collection")),
+        readFieldArgument(args["field"], "field", true)!,
+        readFieldArgument(args["metric"], "metric", false),
+        runTool,
+      );
+    default:
+      throw new ResourceError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+async function exploreCollection(path: string, runTool: PromptToolRunner): Promise<GetPromptResult> {
+  const schema = await toolText(runTool, "inspect_collection_schema", {
+    collectionPath: path,
+    sampleSize: SCHEMA_SAMPLE_SIZE,
+    format: "markdown",
+  });
+  const samples = await toolText(runTool, "query_firestore", {
+    collectionPath: path,
+    limit: SAMPLE_DOCUMENTS,
+    maxResponseTokens: CONTEXT_MAX_TOKENS,
+  });
+
+  return promptResult(`Explore the Firestore collection '${path}'`, [
+    `Help me understand the Firestore collection '${path}'. I am not a Firestore expert, so explain in plain terms.`,
+    "1. Summarize what one document represents, based on the schema and samples below.",
+    "2. Point out identifier, timestamp, status/category and numeric fields, and fields whose types vary between documents.",
+    "3. Suggest 3 to 5 questions worth asking about this data and, for each, the query_firestore or group_by_aggregate call that answers it.",
+    "4. Run the most useful one and explain the result.",
+    section("Schema (sampled)", schema),
+    section(`Sample documents (first ${SAMPLE_DOCUMENTS})`, samples),
+    operatorsSection(),
+  ]);
+}
+
+async function investigateDocument(path: string, runTool: PromptToolRunner): Promise<GetPromptResult> {
+  const collectionPath = path.split("/").slice(0, -1).join("/");
+  const document = await toolText(runTool, "get_document", {
+    path,
+    includeSubcollections: true,
+    maxResponseTokens: CONTEXT_MAX_TOKENS,
+  });
+  const schema = await toolText(runTool, "inspect_collection_schema", {
+    collectionPath,
+    sampleSize: SCHEMA_SAMPLE_SIZE,
+    format: "markdown",
+  });
+
+  return promptResult(`Investigate the Firestore document '${path}'`, [
+    `Help me investigate the Firestore document '${path}'.`,
+    "1. Explain what this document represents and what state it is in.",
+    `2. Compare it with the schema of '${collectionPath}' below: call out missing fields, extra fields and values of an unusual type.`,
+    "3. Identify fields that point to other documents (references, ids, paths) and fetch the most relevant ones with get_document or query_firestore.",
+    "4. If it has subcollections, look into them with list_subcollections and query_firestore.",
+    section("Document", document),
+    section(`Schema of '${collectionPath}' (sampled)`, schema),
+    operatorsSection(),
+  ]);
+}
+
+async function buildReport(
+  collectionPath: string,
+  field: string,
+  metric: string | undefined,
+  runTool: PromptToolRunner,
+): Promise<GetPromptResult> {
+  const schema = await toolText(runTool, "inspect_collection_schema", {
+    collectionPath,
+    sampleSize: SCHEMA_SAMPLE_SIZE,
+    format: "markdown",
+  });
+
+  const metrics = metric
+    ? `{"count": {"operation": "count"}, "total": {"operation": "sum", "field": "${metric}"}, "average": {"operation": "avg", "field": "${metric}"}}`
+    : `{"count": {"operation": "count"}}`;
+
+  return promptResult(`Report on '${collectionPath}' grouped by '${field}'`, [
+    `Build a report on the Firestore collection '${collectionPath}' grouped by '${field}'${metric ? `, with the sum and average of '${metric}'` : ""}.`,
+    `1. Check in the schema below that '${field}'${metric ? ` and '${metric}'` : ""} exist. If '${field}' is a timestamp, group by {"field": "${field}", "bucket": "day"} (or week/month for long ranges).`,
+    "2. Ask me whether to narrow the report with filters (e.g. a date range or status) before running it.",
+    `3. Call group_by_aggregate with collectionPath '${collectionPath}', groupBy ["${field}"] and metrics ${metrics}.`,
+    "4. Present the groups as a Markdown table sorted by count, then summarize the largest groups, outliers and any documents missing the field.",
+    section(`Schema of '${collectionPath}' (sampled)`, schema),
+    operatorsSection(),
+  ]);
+}
+
+async function toolText(runTool: PromptToolRunner, name: string, args: Record<string, unknown>): Promise<string> {
+  const result = await runTool(name, args);
+  const text = result.content
+    .map((item) => (item.type === "text" ? item.text : ""))
+    .join("\n")
+    .trim();
+
+  // Tool errors lead with the message; structured ones follow it with {"error": {"code", ...}}.
+  if (result.isError) {
+    const [message = `${name} failed.`, ...details] = text.split("\n\n");
+    const code = readErrorCode(details.join("\n\n"));
+    throw new ResourceError(ErrorCode.InvalidRequest, code ? `${code}: ${message}` : message);
+  }
+
+  return text;
+}
+
+function readErrorCode(details: string): string | undefined {
+  try {
+    const parsed: unknown = JSON.parse(details);
+    const code = isPlainObject(parsed) && isPlainObject(parsed["error"]) ? parsed["error"]["code"] : undefined;
+    return typeof code === "string" ? code : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readPathArgument(parse: () => string): string {
+  try {
+    return parse();
+  } catch (error) {
+    throw new ResourceError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function readFieldArgument(value: string | undefined, label: string, required: boolean): string | undefined {
+  if (value === undefined || value.trim() === "") {
+    if (required) {
+      throw new ResourceError(ErrorCode.InvalidParams, `${label} must be a non-empty field path.`);
+    }
+    return undefined;
+  }
+
+  if (/["\\\s]/.test(value.trim())) {
+    throw new ResourceError(ErrorCode.InvalidParams, `${label} must be a field path without quotes or spaces (got '${value}').`);
+  }
+
+  return value.trim();
+}
+
+function section(title: string, body: string): string {
+  return [`## ${title}`, "", body].join("\n");
+}
+
+function operatorsSection(): string {
+  return section(
+    "Filter operators",
+    [
+      `query_firestore, group_by_aggregate and watch_query filters accept: ${WHERE_OPERATORS.join(", ")}.`,
+      'Filters look like {"field": "status", "operator": "==", "value": "open"}; combine them with {"or": [...]} or {"and": [...]}.',
+    ].join("\n"),
+  );
+}
+
+function promptResult(description: string, paragraphs: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text: paragraphs.join("\n\n") } }],
+  };
+}
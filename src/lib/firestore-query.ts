@@ -0,0 +1,210 @@
+import { Filter, Firestore } from "@google-cloud/firestore";
+import { decodeFirestoreValue, isPlainObject } from "./firestore-values.js";
+
+export const WHERE_OPERATORS = [
+  "==",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "array-contains",
+  "array-contains-any",
+  "in",
+  "not-in",
+] as const;
+
+export type WhereOperator = typeof WHERE_OPERATORS[number];
+
+const WHERE_OPERATOR_SET = new Set<WhereOperator>(WHERE_OPERATORS);
+
+export const FILTER_SCHEMA_DEFS = {
+  filter: {
+    anyOf: [
+      {
+        type: "object",
+        properties: {
+          field: { type: "string" },
+          operator: {
+            type: "string",
+            enum: [...WHERE_OPERATORS],
+          },
+          value: {
+            description: "Value for the filter condition.",
+          },
+        },
+        required: ["field", "operator", "value"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: {
+          or: { type: "array", items: { $ref: "#/$defs/filter" }, minItems: 1 },
+        },
+        required: ["or"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: {
+          and: { type: "array", items: { $ref: "#/$defs/filter" }, minItems: 1 },
+        },
+        required: ["and"],
+        additionalProperties: false,
+      },
+    ],
+  },
+};
+
+export const QUERY_TARGET_PROPERTIES = {
+  collectionPath: {
+    type: "string",
+    description: "Path to the collection to query. Either collectionPath or collectionGroup is required.",
+  },
+  collectionGroup: {
+    type: "string",
+    description:
+      "Collection id to query across every parent (e.g. 'orders' matches users/*/orders). Either collectionPath or collectionGroup is required.",
+  },
+  filters: {
+    type: "array",
+    description:
+      "Optional array of filter conditions, AND-ed together. Each entry is a field condition or a nested {\"or\": [...]} / {\"and\": [...]} group.",
+    items: { $ref: "#/$defs/filter" },
+  },
+};
+
+export type FilterArg = {
+  field: string;
+  operator: WhereOperator;
+  value: unknown;
+};
+
+export type CompositeFilterArg = {
+  type: "or" | "and";
+  filters: FilterNode[];
+};
+
+export type FilterNode = FilterArg | CompositeFilterArg;
+
+export type QueryTarget = {
+  collectionPath?: string;
+  collectionGroup?: string;
+};
+
+export function buildFilteredQuery(
+  firestore: Firestore,
+  target: QueryTarget,
+  filters: FilterNode[],
+): FirebaseFirestore.Query {
+  let query: FirebaseFirestore.Query = target.collectionGroup
+    ? firestore.collectionGroup(target.collectionGroup)
+    : firestore.collection(target.collectionPath!);
+
+  for (const filter of filters) {
+    query = isCompositeFilter(filter)
+      ? query.where(toFirestoreFilter(filter))
+      : query.where(filter.field, filter.operator, filter.value);
+  }
+
+  return query;
+}
+
+export function parseQueryTarget(rawArgs: Record<string, any>, toolName: string): QueryTarget {
+  const { collectionPath, collectionGroup } = rawArgs;
+
+  if (collectionPath !== undefined && collectionGroup !== undefined) {
+    throw new Error("Provide either collectionPath or collectionGroup, not both.");
+  }
+
+  if (collectionPath === undefined && collectionGroup === undefined) {
+    throw new Error(`${toolName} requires either collectionPath or collectionGroup.`);
+  }
+
+  if (collectionPath !== undefined && (typeof collectionPath !== "string" || collectionPath.trim() === "")) {
+    throw new Error("collectionPath must be a non-empty string.");
+  }
+
+  if (collectionGroup !== undefined && (typeof collectionGroup !== "string" || !/^[^/]+$/.test(collectionGroup.trim()))) {
+    throw new Error("collectionGroup must be a single collection id without '/' (e.g. 'orders').");
+  }
+
+  return {
+    collectionPath: typeof collectionPath === "string" ? collectionPath.trim() : undefined,
+    collectionGroup: typeof collectionGroup === "string" ? collectionGroup.trim() : undefined,
+  };
+}
+
+export function parseFilters(firestore: Firestore, value: unknown): FilterNode[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    throw new Error("filters must be an array when provided.");
+  }
+
+  return value.map((item, index) => parseFilterNode(firestore, item, `filters[${index}]`));
+}
+
+function parseFilterNode(firestore: Firestore, item: unknown, nodePath: string): FilterNode {
+  if (!isPlainObject(item)) {
+    throw new Error(`${nodePath} must be an object with field, operator, and value, or an "or"/"and" group.`);
+  }
+
+  const groupKeys = (["or", "and"] as const).filter((key) => Object.prototype.hasOwnProperty.call(item, key));
+  if (groupKeys.length > 0) {
+    if (groupKeys.length > 1 || Object.keys(item).length > 1) {
+      throw new Error(`${nodePath} must contain exactly one of "or" or "and" and nothing else.`);
+    }
+
+    const type = groupKeys[0]!;
+    const children = item[type];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new Error(`${nodePath}.${type} must be a non-empty array of filters.`);
+    }
+
+    return {
+      type,
+      filters: children.map((child, index) => parseFilterNode(firestore, child, `${nodePath}.${type}[${index}]`)),
+    };
+  }
+
+  const field = item["field"];
+  const operator = item["operator"];
+
+  if (typeof field !== "string" || field.trim() === "") {
+    throw new Error(`${nodePath}.field must be a non-empty string.`);
+  }
+
+  if (typeof operator !== "string" || !WHERE_OPERATOR_SET.has(operator as WhereOperator)) {
+    throw new Error(`${nodePath}.operator must be one of: ${WHERE_OPERATORS.join(", ")}.`);
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(item, "value")) {
+    throw new Error(`${nodePath} must include a value property.`);
+  }
+
+  return {
+    field: field.trim(),
+    operator: operator as WhereOperator,
+    value: decodeFirestoreValue(item["value"], firestore, `${nodePath}.value`),
+  };
+}
+
+function isCompositeFilter(filter: FilterNode): filter is CompositeFilterArg {
+  return "type" in filter;
+}
+
+function toFirestoreFilter(filter: FilterNode): Filter {
+  if (!isCompositeFilter(filter)) {
+    return Filter.where(filter.field, filter.operator, filter.value);
+  }
+
+  const children = filter.filters.map((child) => toFirestoreFilter(child));
+  return filter.type === "or" ? Filter.or(...children) : Filter.and(...children);
+}
+
+export function flattenFilters(filters: FilterNode[]): FilterArg[] {
+  return filters.flatMap((filter) => (isCompositeFilter(filter) ? flattenFilters(filter.filters) : [filter]));
+}
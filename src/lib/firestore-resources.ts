@@ -0,0 +1,301 @@
+import { FieldPath, Firestore } from "@google-cloud/firestore";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { ReadResourceResult, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import type { AccessPolicy } from "./access-policy.js";
+import { buildFilteredQuery, flattenFilters, parseFilters } from "./firestore-query.js";
+import { sanitizeFirestoreValue } from "./firestore-values.js";
+import type { ReadTracker } from "./read-quota.js";
+import { describeTruncation, fitRecords } from "./response-budget.js";
+
+export const RESOURCE_SCHEME = "firestore://";
+
+const RESOURCE_MIME_TYPE = "application/json";
+
+// MCP's error code for a resource that does not exist.
+const RESOURCE_NOT_FOUND_ERROR_CODE = -32002;
+
+const DEFAULT_RESOURCE_PAGE_SIZE = 50;
+
+const COLLECTION_PARAMETERS = new Set(["after", "limit", "filters"]);
+
+export const FIRESTORE_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "firestore://{collection}",
+    name: "collection",
+    title: "Firestore collection",
+    description: `Documents of a top-level collection, ${DEFAULT_RESOURCE_PAGE_SIZE} per page ordered by id. Append ?after=<docId> for the next page, ?limit=<n> to change the page size and ?filters=<JSON> to keep only matching documents.`,
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "firestore://{collection}/{docId}",
+    name: "document",
+    title: "Firestore document",
+    description: "A document in a top-level collection, with createTime, updateTime, data and subcollections.",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "firestore://{+path}",
+    name: "path",
+    title: "Firestore path",
+    description:
+      "Any collection or document path, e.g. firestore://users/abc/orders or firestore://users/abc/orders/o1. Odd segment counts are collections, even ones documents.",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "firestore://{+path}{?filters}",
+    name: "query",
+    title: "Firestore query",
+    description:
+      'Documents of a collection that match filters, given as a URL-encoded JSON array in the query_firestore format, e.g. firestore://orders?filters=%5B%7B%22field%22%3A%22status%22%2C%22operator%22%3A%22%3D%3D%22%2C%22value%22%3A%22open%22%7D%5D for [{"field":"status","operator":"==","value":"open"}]. Subscribe to be notified when the matching documents change.',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+/**
+ * Fails a resource or prompt request with a JSON-RPC error. The SDK forwards only `code` and `message`,
+ * so unlike McpError the message is sent as is and carries any machine-readable code itself.
+ */
+export class ResourceError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ResourceError";
+  }
+}
+
+export type ResourceTarget = {
+  kind: "collection" | "document";
+  path: string;
+  after?: string;
+  limit?: number;
+  /** Parsed `filters` parameter, validated with parseFilters when the query is built. */
+  filters?: unknown;
+};
+
+/** Callbacks of a live listener started by FirestoreResourceReader.watch. */
+export type ResourceListener = {
+  onChange: () => void;
+  onError: (error: Error) => void;
+};
+
+export type FirestoreResourceReaderOptions = {
+  maxLimit: number;
+  maxResponseTokens: number;
+};
+
+export function toResourceUri(path: string): string {
+  return `${RESOURCE_SCHEME}${path.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/** Parses `firestore://users/abc?after=x&limit=n&filters=[...]`; segments may be percent-encoded. */
+export function parseResourceUri(uri: string): ResourceTarget {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new ResourceError(ErrorCode.InvalidParams, `Resource URIs must start with ${RESOURCE_SCHEME} (got '${uri}').`);
+  }
+
+  const [rawPath = "", rawQuery] = uri.slice(RESOURCE_SCHEME.length).split("?", 2);
+  let segments: string[];
+  try {
+    segments = rawPath.replace(/^\/+|\/+$/g, "").split("/").map(decodeURIComponent);
+  } catch {
+    throw new ResourceError(ErrorCode.InvalidParams, `Resource URI '${uri}' is not correctly percent-encoded.`);
+  }
+
+  if (segments.some((segment) => segment === "" || segment.includes("/"))) {
+    throw new ResourceError(ErrorCode.InvalidParams, `Resource URI '${uri}' must name a collection or document path.`);
+  }
+
+  const kind = segments.length % 2 === 1 ? "collection" : "document";
+  const query = new URLSearchParams(rawQuery ?? "");
+  const unknown = Array.from(query.keys()).filter((key) => !COLLECTION_PARAMETERS.has(key));
+  if (unknown.length > 0 || (kind === "document" && rawQuery)) {
+    throw new ResourceError(
+      ErrorCode.InvalidParams,
+      `Resource URI '${uri}' has unsupported query parameters; collections accept only after, limit and filters.`,
+    );
+  }
+
+  const filtersRaw = query.get("filters");
+  let filters: unknown;
+  if (filtersRaw !== null) {
+    try {
+      filters = JSON.parse(filtersRaw);
+    } catch {
+      throw new ResourceError(ErrorCode.InvalidParams, "filters must be a URL-encoded JSON array of query_firestore filters.");
+    }
+  }
+
+  const limitRaw = query.get("limit");
+  const limit = limitRaw === null ? undefined : Number(limitRaw);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new ResourceError(ErrorCode.InvalidParams, "limit must be a positive integer.");
+  }
+
+  return { kind, path: segments.join("/"), after: query.get("after") ?? undefined, limit, filters };
+}
+
+/** Serves firestore:// resources under the same access policy as the tools. */
+export class FirestoreResourceReader {
+  constructor(
+    private readonly firestore: Firestore,
+    private readonly policy: AccessPolicy,
+    private readonly options: FirestoreResourceReaderOptions,
+  ) {}
+
+  async list(reads: ReadTracker): Promise<Resource[]> {
+    reads.reserve(1);
+    const collections = await this.firestore.listCollections();
+    reads.record(1);
+
+    return collections
+      .filter((collection) => this.policy.isCollectionAllowed(collection.id))
+      .map((collection) => collection.id)
+      .sort()
+      .map((id) => ({
+        uri: toResourceUri(id),
+        name: id,
+        title: `${id} collection`,
+        mimeType: RESOURCE_MIME_TYPE,
+      }));
+  }
+
+  async read(uri: string, reads: ReadTracker): Promise<ReadResourceResult> {
+    const target = parseResourceUri(uri);
+    const payload =
+      target.kind === "document" ? await this.readDocument(target, reads) : await this.readCollection(target, reads);
+
+    return {
+      contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(payload, null, 2) }],
+    };
+  }
+
+  /**
+   * Attaches an onSnapshot listener to a document or collection page URI and returns the function
+   * that detaches it. The initial snapshot is not reported; every later one is.
+   */
+  watch(uri: string, reads: ReadTracker, listener: ResourceListener): () => void {
+    const target = parseResourceUri(uri);
+    let initial = true;
+
+    if (target.kind === "document") {
+      this.policy.assertDocument(target.path);
+      reads.reserve(1);
+
+      return this.firestore.doc(target.path).onSnapshot(() => {
+        reads.record(1);
+        if (initial) {
+          initial = false;
+          return;
+        }
+        listener.onChange();
+      }, listener.onError);
+    }
+
+    const { query, limit } = this.collectionQuery(target);
+    reads.reserve(limit);
+
+    // Listeners are billed the full result once, then one read per changed document.
+    return query.onSnapshot((snapshot) => {
+      reads.record(Math.max(initial ? snapshot.size : snapshot.docChanges().length, 1));
+      if (initial) {
+        initial = false;
+        return;
+      }
+      listener.onChange();
+    }, listener.onError);
+  }
+
+  private async readDocument(target: ResourceTarget, reads: ReadTracker): Promise<Record<string, unknown>> {
+    this.policy.assertDocument(target.path);
+
+    reads.reserve(2);
+    const ref = this.firestore.doc(target.path);
+    const [snapshot, subcollections] = await Promise.all([ref.get(), ref.listCollections()]);
+    reads.record(2);
+
+    if (!snapshot.exists && subcollections.length === 0) {
+      throw new ResourceError(RESOURCE_NOT_FOUND_ERROR_CODE, `Document '${target.path}' does not exist.`);
+    }
+
+    const document: Record<string, unknown> = {
+      path: snapshot.ref.path,
+      id: snapshot.id,
+      exists: snapshot.exists,
+      createTime: sanitizeFirestoreValue(snapshot.createTime),
+      updateTime: sanitizeFirestoreValue(snapshot.updateTime),
+      data: snapshot.exists ? this.policy.sanitize(snapshot.data()) : null,
+      subcollections: subcollections
+        .filter((collection) => this.policy.isCollectionAllowed(collection.path))
+        .map((collection) => toResourceUri(collection.path))
+        .sort(),
+    };
+
+    const fitted = fitRecords([document], this.options.maxResponseTokens, (records) => JSON.stringify(records, null, 2));
+    const truncation = describeTruncation(fitted, this.options.maxResponseTokens);
+    return truncation ? { ...fitted.records[0], truncation } : document;
+  }
+
+  private async readCollection(target: ResourceTarget, reads: ReadTracker): Promise<Record<string, unknown>> {
+    const { query, limit } = this.collectionQuery(target);
+
+    reads.reserve(limit);
+    const snapshot = await query.get();
+    reads.record(Math.max(snapshot.size, 1));
+
+    const documents = snapshot.docs.map((doc) => ({
+      id: doc.id,
+      uri: toResourceUri(doc.ref.path),
+      data: this.policy.sanitize(doc.data()),
+    }));
+
+    const fitted = fitRecords(documents, this.options.maxResponseTokens, (records) => JSON.stringify(records, null, 2));
+    const truncation = describeTruncation(fitted, this.options.maxResponseTokens);
+
+    // Documents dropped for size are picked up by continuing after the last one returned.
+    const last = fitted.records[fitted.records.length - 1];
+    const hasMore = snapshot.size === limit || fitted.omittedRecords > 0;
+    const nextPage =
+      hasMore && last
+        ? `${toResourceUri(target.path)}?${new URLSearchParams({
+            after: last.id,
+            ...(target.limit && { limit: String(target.limit) }),
+            ...(target.filters !== undefined && { filters: JSON.stringify(target.filters) }),
+          })}`
+        : null;
+
+    return {
+      collection: target.path,
+      documents: fitted.records,
+      nextPage,
+      ...(truncation && { truncation }),
+    };
+  }
+
+  private collectionQuery(target: ResourceTarget): { query: FirebaseFirestore.Query; limit: number } {
+    this.policy.assertCollection(target.path);
+
+    const limit = target.limit ?? DEFAULT_RESOURCE_PAGE_SIZE;
+    if (limit > this.options.maxLimit) {
+      throw new ResourceError(ErrorCode.InvalidParams, `limit must not exceed ${this.options.maxLimit}.`);
+    }
+
+    let filters;
+    try {
+      filters = parseFilters(this.firestore, target.filters);
+    } catch (error) {
+      throw new ResourceError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+    flattenFilters(filters).forEach((filter) => this.policy.assertFieldUsable(filter.field, "filters"));
+
+    let query = buildFilteredQuery(this.firestore, { collectionPath: target.path }, filters)
+      .orderBy(FieldPath.documentId())
+      .limit(limit);
+    if (target.after) {
+      query = query.startAfter(target.after);
+    }
+
+    return { query, limit };
+  }
+}
@@ -1,22 +1,111 @@
-import { Firestore } from "@google-cloud/firestore";
-import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
-
-const WHERE_OPERATORS = [
-  "==",
-  "!=",
-  "<",
-  "<=",
-  ">",
-  ">=",
-  "array-contains",
-  "array-contains-any",
-  "in",
-  "not-in",
-] as const;
-
-type WhereOperator = typeof WHERE_OPERATORS[number];
-
-const WHERE_OPERATOR_SET = new Set<WhereOperator>(WHERE_OPERATORS);
+import { AggregateField, FieldPath, Firestore } from "@google-cloud/firestore";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  CallToolResult,
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AccessPolicy, PolicyDeniedError, loadAccessPolicy } from "./access-policy.js";
+import {
+  decodeFirestoreValue,
+  isPlainObject,
+  isTypedValue,
+  sanitizeFirestoreValue,
+  TIMESTAMP_OUTPUT_SCHEMA,
+} from "./firestore-values.js";
+import {
+  FILTER_SCHEMA_DEFS,
+  QUERY_TARGET_PROPERTIES,
+  buildFilteredQuery,
+  flattenFilters,
+  parseFilters,
+  parseQueryTarget,
+} from "./firestore-query.js";
+import type { FilterNode, QueryTarget, WhereOperator } from "./firestore-query.js";
+import { FIRESTORE_PROMPTS, buildPrompt } from "./firestore-prompts.js";
+import { FIRESTORE_RESOURCE_TEMPLATES, FirestoreResourceReader, ResourceError } from "./firestore-resources.js";
+import type { ResourceListener } from "./firestore-resources.js";
+import {
+  CONFIRMED_WRITE_TOOL_NAMES,
+  FIRESTORE_WRITE_TOOL_DEFINITIONS,
+  FIRESTORE_WRITE_TOOL_NAMES,
+  FirestoreWriteToolExecutor,
+} from "./firestore-write-tools.js";
+import { createCheckpoint, createCheckpointStore, diffDocuments } from "./query-checkpoints.js";
+import type { CheckpointStore, QueryCheckpoint } from "./query-checkpoints.js";
+import {
+  FIELD_SUMMARY_OUTPUT_SCHEMA,
+  SAMPLING_STRATEGIES,
+  SchemaCollector,
+  documentIdStrata,
+  randomDocumentIds,
+} from "./schema-inference.js";
+import type { FieldSummary, SamplingStrategy } from "./schema-inference.js";
+import { OUTPUT_FORMAT_PROPERTIES, formatRecords, parseOutputFormatArgs } from "./output-format.js";
+import type { OutputFormatArgs } from "./output-format.js";
+import { ReadBudgetExceededError, ReadQuota } from "./read-quota.js";
+import {
+  MAX_RESPONSE_TOKENS_PROPERTY,
+  TRUNCATION_OUTPUT_SCHEMA,
+  describeTruncation,
+  fitRecords,
+  resolveMaxResponseTokens,
+} from "./response-budget.js";
+import type { ReadTracker } from "./read-quota.js";
+import {
+  errorResult,
+  parseCollectionPath,
+  parseDocumentPath,
+  parseFieldPathList,
+  parsePositiveInteger,
+  structuredErrorResult,
+  successResult,
+} from "./tool-helpers.js";
+import { ToolSession } from "./tool-session.js";
+
+const ACCESS_MODES = ["read-only", "read-write"] as const;
+
+export type FirestoreAccessMode = typeof ACCESS_MODES[number];
+
+/** OAuth scopes that unlock the read and write tool sets. */
+export const TOOL_SCOPES = {
+  read: "firestore:read",
+  write: "firestore:write",
+} as const;
+
+/** Authenticated identity behind a tool call; its restrictions narrow the server's, never widen them. */
+export type CallerIdentity = {
+  /**
+   * Keys read budgets, sessions, confirmation tokens and checkpoints. Namespaced by how the caller
+   * authenticated (`apikey:<label>`, `oauth:<iss>|<sub>`) so an API key label never equals a token subject.
+   */
+  id: string;
+  /** Shown in audit lines and messages. */
+  label: string;
+  mode?: FirestoreAccessMode;
+  collections?: string[];
+  collectionGroups?: string[];
+  /** OAuth scopes; when present, read tools need firestore:read and write tools firestore:write. */
+  scopes?: string[];
+};
+
+export type FirestoreToolExecutorOptions = {
+  /** Defaults to FIRESTORE_MCP_MODE, which defaults to read-only. */
+  mode?: FirestoreAccessMode;
+  /** Defaults to the file named by FIRESTORE_MCP_POLICY_FILE, or no restrictions. */
+  policy?: AccessPolicy;
+  /** Defaults to limits and budgets from FIRESTORE_MCP_MAX_LIMIT, FIRESTORE_MCP_READ_BUDGET and friends. */
+  quota?: ReadQuota;
+  /** Defaults to FIRESTORE_MCP_MAX_RESPONSE_TOKENS, which defaults to 25000. */
+  maxResponseTokens?: number;
+  /** Defaults to FIRESTORE_MCP_CHECKPOINT_FILE, or memory. */
+  checkpoints?: CheckpointStore;
+  caller?: CallerIdentity;
+};
 
 const ORDER_DIRECTIONS = ["asc", "desc"] as const;
 
@@ -24,6 +113,57 @@ type OrderDirection = typeof ORDER_DIRECTIONS[number];
 
 const ORDER_DIRECTION_SET = new Set<OrderDirection>(ORDER_DIRECTIONS);
 
+const INEQUALITY_OPERATORS = new Set<WhereOperator>(["!=", "<", "<=", ">", ">=", "not-in"]);
+
+const DOCUMENT_ID_FIELD = "__name__";
+
+const CURSOR_ARGUMENTS = ["startAt", "startAfter", "endAt", "endBefore"] as const;
+
+type CursorArgument = typeof CURSOR_ARGUMENTS[number];
+
+const AGGREGATION_OPERATIONS = ["count", "sum", "avg"] as const;
+
+type AggregationOperation = typeof AGGREGATION_OPERATIONS[number];
+
+const AGGREGATION_OPERATION_SET = new Set<AggregationOperation>(AGGREGATION_OPERATIONS);
+
+// Firestore rejects aggregation queries with more than five aggregations.
+const MAX_AGGREGATIONS = 5;
+
+const GROUP_METRIC_OPERATIONS = ["count", "sum", "avg", "min", "max"] as const;
+
+type GroupMetricOperation = typeof GROUP_METRIC_OPERATIONS[number];
+
+const GROUP_METRIC_OPERATION_SET = new Set<GroupMetricOperation>(GROUP_METRIC_OPERATIONS);
+
+const TIME_BUCKETS = ["hour", "day", "week", "month"] as const;
+
+type TimeBucket = typeof TIME_BUCKETS[number];
+
+const TIME_BUCKET_SET = new Set<TimeBucket>(TIME_BUCKETS);
+
+const DEFAULT_GROUP_MAX_READS = 1000;
+const MAX_GROUP_READS = 10000;
+
+const MAX_GET_DOCUMENT_PATHS = 100;
+
+// OAuth callers are per user, so the per-caller executor cache is bounded.
+const MAX_CALLER_EXECUTORS = 1000;
+
+const DEFAULT_TREE_MAX_DEPTH = 3;
+const DEFAULT_TREE_SAMPLE_SIZE = 5;
+const DEFAULT_TREE_MAX_READS = 200;
+const MAX_TREE_READS = 2000;
+
+const DOCUMENT_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    path: { type: "string" },
+  },
+  required: ["id", "path"],
+};
+
 export const FIRESTORE_TOOL_DEFINITIONS: Tool[] = [
   {
     name: "list_collections",
@@ -33,10 +173,18 @@ export const FIRESTORE_TOOL_DEFINITIONS: Tool[] = [
       properties: {},
       additionalProperties: false,
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        collections: { type: "array", items: { type: "string" }, description: "Top-level collection ids, sorted." },
+      },
+      required: ["collections"],
+    },
   },
   {
     name: "inspect_collection_schema",
-    description: "Analyze the structure of documents in a collection by sampling documents.",
+    description:
+      "Analyze the structure of documents in a collection by sampling documents: per field, presence, type counts, array element types, min/max, distinct values and enums. Optionally returns a JSON Schema.",
     inputSchema: {
       type: "object",
       properties: {
@@ -49,42 +197,172 @@ export const FIRESTORE_TOOL_DEFINITIONS: Tool[] = [
           description: "Number of documents to sample for schema analysis (default: 10).",
           default: 10,
         },
+        sampling: {
+          type: "string",
+          enum: [...SAMPLING_STRATEGIES],
+          description:
+            "first (default) reads the first documents by id; random starts at random document ids; stratified spreads the sample over up to 10 document-id ranges. random and stratified assume auto-generated ids and cost up to one extra read per range or random pick.",
+        },
+        jsonSchema: {
+          type: "boolean",
+          description: "Return a JSON Schema (draft 2020-12) of the documents as text and in structuredContent.jsonSchema. Cannot be combined with format.",
+        },
+        select: {
+          type: "array",
+          description: "Optional field paths to fetch (server-side projection). Other fields are never read over the wire.",
+          items: { type: "string" },
+        },
+        exclude: {
+          type: "array",
+          description: "Optional field paths (dotted for nested fields) to drop from the output after fetching, e.g. large blobs.",
+          items: { type: "string" },
+        },
+        ...OUTPUT_FORMAT_PROPERTIES,
       },
       required: ["collectionPath"],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        collectionPath: { type: "string" },
+        sampledDocuments: { type: "number" },
+        sampling: { type: "string", enum: [...SAMPLING_STRATEGIES] },
+        fields: {
+          type: "array",
+          items: FIELD_SUMMARY_OUTPUT_SCHEMA,
+        },
+        jsonSchema: { type: "object", description: "Present when jsonSchema was requested." },
+      },
+      required: ["collectionPath", "sampledDocuments", "fields"],
+    },
   },
   {
     name: "query_firestore",
-    description: "Execute queries on a Firestore collection with optional filters, ordering, limits, and aggregations.",
+    description:
+      "Execute queries on a Firestore collection or collection group with optional filters, ordering, limits, and aggregations.",
     inputSchema: {
       type: "object",
       properties: {
-        collectionPath: {
-          type: "string",
-          description: "Path to the collection to query (required).",
-        },
-        filters: {
+        ...QUERY_TARGET_PROPERTIES,
+        orderBy: {
           type: "array",
-          description: "Optional array of filter conditions to apply before executing the query.",
+          description: "Optional array of order by clauses.",
           items: {
             type: "object",
             properties: {
               field: { type: "string" },
-              operator: {
-                type: "string",
-                enum: [...WHERE_OPERATORS],
-              },
-              value: {
-                description: "Value for the filter condition.",
-              },
+              direction: { type: "string", enum: [...ORDER_DIRECTIONS] },
+            },
+            required: ["field", "direction"],
+          },
+        },
+        limit: {
+          type: "number",
+          description:
+            "Maximum number of documents to return (must be > 0; defaults to and may not exceed the server's FIRESTORE_MCP_MAX_LIMIT, 1000 unless configured). When a full page is returned the response includes a nextPageToken.",
+        },
+        select: {
+          type: "array",
+          description: "Optional field paths to fetch (server-side projection). Other fields are never read over the wire.",
+          items: { type: "string" },
+        },
+        exclude: {
+          type: "array",
+          description: "Optional field paths (dotted for nested fields) to drop from the output after fetching, e.g. large blobs.",
+          items: { type: "string" },
+        },
+        pageToken: {
+          type: "string",
+          description:
+            "Opaque token from a previous response's nextPageToken. Resumes after the last document of that page; repeat the same filters and orderBy.",
+        },
+        startAt: {
+          type: "array",
+          description: "Optional cursor: start at the document with these orderBy values (one value per orderBy clause, in order).",
+          items: {},
+        },
+        startAfter: {
+          type: "array",
+          description: "Optional cursor: start after the document with these orderBy values.",
+          items: {},
+        },
+        endAt: {
+          type: "array",
+          description: "Optional cursor: end at the document with these orderBy values.",
+          items: {},
+        },
+        endBefore: {
+          type: "array",
+          description: "Optional cursor: end before the document with these orderBy values.",
+          items: {},
+        },
+        aggregation: {
+          type: "object",
+          description:
+            "Optional shorthand aggregations computed server-side over every document matching the filters (ignores limit and cursors).",
+          properties: {
+            count: { type: "boolean", description: "Return the number of matching documents." },
+            sum: { type: "string", description: "Compute the sum for the provided field path (dotted for nested fields)." },
+            avg: { type: "string", description: "Compute the average for the provided field path (dotted for nested fields)." },
+          },
+        },
+        aggregations: {
+          type: "object",
+          description: `Optional named aggregations computed server-side in one request, e.g. {"revenue": {"operation": "sum", "field": "total"}}. Combined with aggregation, at most ${MAX_AGGREGATIONS}.`,
+          additionalProperties: {
+            type: "object",
+            properties: {
+              operation: { type: "string", enum: [...AGGREGATION_OPERATIONS] },
+              field: { type: "string", description: "Field path to aggregate; required for sum and avg." },
             },
-            required: ["field", "operator", "value"],
+            required: ["operation"],
+            additionalProperties: false,
           },
         },
+        includeDocuments: {
+          type: "boolean",
+          description: "Set to false to return only aggregation results without reading documents (default: true).",
+          default: true,
+        },
+        maxResponseTokens: MAX_RESPONSE_TOKENS_PROPERTY,
+        ...OUTPUT_FORMAT_PROPERTIES,
+      },
+      additionalProperties: false,
+      $defs: FILTER_SCHEMA_DEFS,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        documents: {
+          type: "array",
+          description: "Matching documents as {id, path, ...fields}. Omitted with includeDocuments: false.",
+          items: DOCUMENT_OUTPUT_SCHEMA,
+        },
+        nextPageToken: {
+          type: ["string", "null"],
+          description: "Pass back as pageToken to fetch the next page; null when this page was not full.",
+        },
+        aggregations: {
+          type: "object",
+          description: "Aggregation results by name, over every matching document.",
+          additionalProperties: { type: ["number", "null"] },
+        },
+        truncation: TRUNCATION_OUTPUT_SCHEMA,
+      },
+    },
+  },
+  {
+    name: "watch_query",
+    description:
+      "Track what changed in a query's results. The first call runs the query and returns every matching document plus a checkpoint id; calling again with only that checkpoint re-runs the same query and returns the documents added, modified (with field-level before/after values) and removed since, plus a new checkpoint.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...QUERY_TARGET_PROPERTIES,
         orderBy: {
           type: "array",
-          description: "Optional array of order by clauses.",
+          description: "Optional array of order by clauses; decides which documents fall within limit.",
           items: {
             type: "object",
             properties: {
@@ -96,221 +374,1291 @@ export const FIRESTORE_TOOL_DEFINITIONS: Tool[] = [
         },
         limit: {
           type: "number",
-          description: "Optional maximum number of documents to return (must be > 0).",
+          description:
+            "Maximum number of documents to track (defaults to and may not exceed the server's FIRESTORE_MCP_MAX_LIMIT, 1000 unless configured).",
         },
-        aggregation: {
+        select: {
+          type: "array",
+          description: "Optional field paths to track; changes to other fields are ignored.",
+          items: { type: "string" },
+        },
+        exclude: {
+          type: "array",
+          description: "Optional field paths (dotted for nested fields) to leave out of the snapshot and the diffs.",
+          items: { type: "string" },
+        },
+        checkpoint: {
+          type: "string",
+          description:
+            "Checkpoint id from a previous watch_query response. The checkpoint carries the query, so pass no other query arguments with it. Checkpoints stay valid for 7 days and can be reused.",
+        },
+        maxResponseTokens: MAX_RESPONSE_TOKENS_PROPERTY,
+      },
+      additionalProperties: false,
+      $defs: FILTER_SCHEMA_DEFS,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        checkpoint: { type: "string", description: "Pass back as checkpoint to get the changes since this call." },
+        since: {
+          type: ["string", "null"],
+          description: "Creation time of the checkpoint the changes are relative to; null on the first call.",
+        },
+        documentCount: { type: "number" },
+        limitReached: {
+          type: "boolean",
+          description: "True when the query hit limit, so documents beyond it are neither tracked nor reported.",
+        },
+        summary: {
           type: "object",
-          description: "Optional aggregation operations to perform on the result set.",
           properties: {
-            count: { type: "boolean", description: "Return the number of matching documents." },
-            sum: { type: "string", description: "Compute the sum for the provided field name." },
-            avg: { type: "string", description: "Compute the average for the provided field name." },
+            added: { type: "number" },
+            modified: { type: "number" },
+            removed: { type: "number" },
           },
+          required: ["added", "modified", "removed"],
         },
+        changes: {
+          type: "array",
+          description:
+            "added carries the document's data, modified a list of {field, before, after} (before or after is absent when the field was added or removed), removed only the path.",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string", enum: ["added", "modified", "removed"] },
+              id: { type: "string" },
+              path: { type: "string" },
+              data: { type: "object" },
+              fields: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { field: { type: "string" }, before: {}, after: {} },
+                  required: ["field"],
+                },
+              },
+            },
+            required: ["type", "id", "path"],
+          },
+        },
+        truncation: TRUNCATION_OUTPUT_SCHEMA,
       },
-      required: ["collectionPath"],
+      required: ["checkpoint", "since", "documentCount", "limitReached", "summary", "changes"],
+    },
+  },
+  {
+    name: "group_by_aggregate",
+    description:
+      "Group documents matching the filters by one or more fields (or time buckets of a timestamp field) and compute count/sum/avg/min/max per group.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...QUERY_TARGET_PROPERTIES,
+        groupBy: {
+          type: "array",
+          description:
+            "Fields to group by, in order. Each entry is a field path string or {field, bucket} where bucket is one of hour, day, week, month (UTC; weeks start on Monday).",
+          items: {
+            anyOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: {
+                  field: { type: "string" },
+                  bucket: { type: "string", enum: [...TIME_BUCKETS] },
+                },
+                required: ["field"],
+                additionalProperties: false,
+              },
+            ],
+          },
+          minItems: 1,
+        },
+        metrics: {
+          type: "object",
+          description:
+            'Named metrics per group, e.g. {"revenue": {"operation": "sum", "field": "total"}} (default: {"count": {"operation": "count"}}). "group" is reserved for the group key.',
+          additionalProperties: {
+            type: "object",
+            properties: {
+              operation: { type: "string", enum: [...GROUP_METRIC_OPERATIONS] },
+              field: { type: "string", description: "Field path to aggregate; required except for count." },
+            },
+            required: ["operation"],
+            additionalProperties: false,
+          },
+        },
+        maxReads: {
+          type: "number",
+          description: `Abort instead of scanning when more documents than this match (default: ${DEFAULT_GROUP_MAX_READS}, max: ${MAX_GROUP_READS}).`,
+          default: DEFAULT_GROUP_MAX_READS,
+        },
+        ...OUTPUT_FORMAT_PROPERTIES,
+      },
+      required: ["groupBy"],
       additionalProperties: false,
+      $defs: FILTER_SCHEMA_DEFS,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        documentsGrouped: { type: "number", description: "Documents that were grouped, after access policy checks." },
+        groups: {
+          type: "array",
+          description: "One row per group: {group: {<field>: <value>}, <metric name>: number | null}.",
+          items: {
+            type: "object",
+            properties: {
+              group: { type: "object" },
+            },
+            required: ["group"],
+            additionalProperties: { type: ["number", "null"] },
+          },
+        },
+      },
+      required: ["documentsGrouped", "groups"],
+    },
+  },
+  {
+    name: "get_document",
+    description: "Read one or more documents by their full path (e.g. 'users/abc' or 'users/abc/orders/123').",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Full path of a single document to read.",
+        },
+        paths: {
+          type: "array",
+          description: `Full paths of several documents to read in one call (max ${MAX_GET_DOCUMENT_PATHS}).`,
+          items: { type: "string" },
+        },
+        fields: {
+          type: "array",
+          description: "Optional field paths to return instead of the whole document.",
+          items: { type: "string" },
+        },
+        includeSubcollections: {
+          type: "boolean",
+          description: "List the subcollection ids of each document (default: false).",
+          default: false,
+        },
+        maxResponseTokens: MAX_RESPONSE_TOKENS_PROPERTY,
+        ...OUTPUT_FORMAT_PROPERTIES,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        documents: {
+          type: "array",
+          description: "One entry per requested path, in request order.",
+          items: {
+            type: "object",
+            properties: {
+              path: { type: "string" },
+              id: { type: "string" },
+              exists: { type: "boolean" },
+              createTime: TIMESTAMP_OUTPUT_SCHEMA,
+              updateTime: TIMESTAMP_OUTPUT_SCHEMA,
+              data: { type: "object" },
+              subcollections: { type: "array", items: { type: "string" } },
+            },
+            required: ["path", "id", "exists"],
+          },
+        },
+        missing: { type: "number" },
+        truncation: TRUNCATION_OUTPUT_SCHEMA,
+      },
+      required: ["documents", "missing"],
+    },
+  },
+  {
+    name: "list_subcollections",
+    description: "List the subcollections of a document.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        documentPath: {
+          type: "string",
+          description: "Full path of the document whose subcollections should be listed (required).",
+        },
+      },
+      required: ["documentPath"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        documentPath: { type: "string" },
+        subcollections: { type: "array", items: { type: "string" }, description: "Subcollection ids, sorted." },
+      },
+      required: ["documentPath", "subcollections"],
+    },
+  },
+  {
+    name: "describe_collection_tree",
+    description:
+      "Walk a bounded sample of documents and report the nested collection hierarchy (e.g. users/{id}/orders/{id}/items).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collectionPath: {
+          type: "string",
+          description: "Collection to start from. Omit to start from all top-level collections.",
+        },
+        maxDepth: {
+          type: "number",
+          description: `Maximum number of collection levels to descend, including the starting level (default: ${DEFAULT_TREE_MAX_DEPTH}).`,
+          default: DEFAULT_TREE_MAX_DEPTH,
+        },
+        sampleSize: {
+          type: "number",
+          description: `Documents sampled per collection, and collections sampled per path pattern (default: ${DEFAULT_TREE_SAMPLE_SIZE}).`,
+          default: DEFAULT_TREE_SAMPLE_SIZE,
+        },
+        maxReads: {
+          type: "number",
+          description: `Read budget for the walk; document reads and subcollection listings each count as one (default: ${DEFAULT_TREE_MAX_READS}, max: ${MAX_TREE_READS}).`,
+          default: DEFAULT_TREE_MAX_READS,
+        },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        collections: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              pattern: { type: "string", description: "Collection path with document ids replaced by {id}." },
+              depth: { type: "number" },
+              collectionsSampled: { type: "number" },
+              documentsSampled: { type: "number" },
+            },
+            required: ["pattern", "depth", "collectionsSampled", "documentsSampled"],
+          },
+        },
+        readsUsed: { type: "number" },
+        readLimit: { type: "number" },
+        truncated: { type: "boolean", description: "True when the read limit stopped the walk early." },
+      },
+      required: ["collections", "readsUsed", "readLimit", "truncated"],
     },
   },
 ];
 
-type FilterArg = {
-  field: string;
-  operator: WhereOperator;
-  value: unknown;
-};
+type OrderByArg = {
+  field: string;
+  direction: OrderDirection;
+};
+
+type AggregationSpec = {
+  name: string;
+  operation: AggregationOperation;
+  field?: string;
+};
+
+type InspectArgs = {
+  collectionPath: string;
+  sampleSize: number;
+  sampling: SamplingStrategy;
+  jsonSchema: boolean;
+  select?: string[];
+  exclude?: string[];
+  output: OutputFormatArgs;
+};
+
+type GetDocumentArgs = {
+  paths: string[];
+  fields?: string[];
+  includeSubcollections: boolean;
+  maxResponseTokens?: number;
+  output: OutputFormatArgs;
+};
+
+type CollectionTreeArgs = {
+  collectionPath?: string;
+  maxDepth: number;
+  sampleSize: number;
+  maxReads: number;
+};
+
+type CollectionTreeNode = {
+  pattern: string;
+  depth: number;
+  collectionsSampled: number;
+  documentsSampled: number;
+};
+
+type CursorArgs = Partial<Record<CursorArgument, unknown[]>>;
+
+type PageToken = {
+  fields: string[];
+  values: unknown[];
+};
+
+type GroupByArg = {
+  field: string;
+  bucket?: TimeBucket;
+};
+
+type GroupMetricArg = {
+  name: string;
+  operation: GroupMetricOperation;
+  field?: string;
+};
+
+type GroupByAggregateArgs = QueryTarget & {
+  filters: FilterNode[];
+  groupBy: GroupByArg[];
+  metrics: GroupMetricArg[];
+  maxReads: number;
+  output: OutputFormatArgs;
+};
+
+type GroupAccumulator = {
+  key: unknown[];
+  count: number;
+  sums: Map<string, { sum: number; count: number }>;
+  mins: Map<string, number>;
+  maxs: Map<string, number>;
+};
+
+type QueryArgs = QueryTarget & {
+  filters: FilterNode[];
+  orderBy: OrderByArg[];
+  limit: number;
+  select?: string[];
+  exclude?: string[];
+  pageToken?: PageToken;
+  cursors: CursorArgs;
+  aggregations: AggregationSpec[];
+  includeDocuments: boolean;
+  maxResponseTokens?: number;
+  output: OutputFormatArgs;
+};
+
+type WatchQuery = QueryTarget & {
+  filters: FilterNode[];
+  orderBy: OrderByArg[];
+  limit: number;
+  select?: string[];
+  exclude?: string[];
+};
+
+type WatchQueryArgs = {
+  /** Query arguments as sent, stored with the checkpoint. */
+  query: Record<string, unknown>;
+  checkpoint?: string;
+  maxResponseTokens?: number;
+};
+
+export function resolveAccessMode(value = process.env.FIRESTORE_MCP_MODE): FirestoreAccessMode {
+  if (value === undefined || value.trim() === "") {
+    return "read-only";
+  }
+
+  const mode = value.trim().toLowerCase();
+  if (!ACCESS_MODES.includes(mode as FirestoreAccessMode)) {
+    throw new Error(`FIRESTORE_MCP_MODE must be one of: ${ACCESS_MODES.join(", ")} (got '${value}').`);
+  }
+
+  return mode as FirestoreAccessMode;
+}
+
+export class FirestoreToolExecutor {
+  readonly mode: FirestoreAccessMode;
+  readonly policy: AccessPolicy;
+  readonly caller?: CallerIdentity;
+  readonly quota: ReadQuota;
+  readonly maxResponseTokens: number;
+  readonly checkpoints: CheckpointStore;
+  private readonly writeExecutor: FirestoreWriteToolExecutor;
+  private readonly resourceReader: FirestoreResourceReader;
+  private readonly processSession = new ToolSession();
+  private readonly callerExecutors = new Map<string, FirestoreToolExecutor>();
+
+  constructor(
+    private readonly firestore: Firestore,
+    options: FirestoreToolExecutorOptions = {},
+  ) {
+    const { caller } = options;
+    const mode = options.mode ?? resolveAccessMode();
+    const policy = options.policy ?? loadAccessPolicy();
+
+    this.caller = caller;
+    this.quota = options.quota ?? new ReadQuota();
+    this.maxResponseTokens = options.maxResponseTokens ?? resolveMaxResponseTokens();
+    this.checkpoints = options.checkpoints ?? createCheckpointStore();
+    this.mode = caller?.mode === "read-only" ? "read-only" : mode;
+    this.policy = caller?.collections
+      ? policy.restrictTo({
+          label: `caller '${caller.label}'`,
+          allow: caller.collections,
+          collectionGroups: caller.collectionGroups,
+        })
+      : policy;
+    this.writeExecutor = new FirestoreWriteToolExecutor(firestore, this.policy);
+    this.resourceReader = new FirestoreResourceReader(firestore, this.policy, {
+      maxLimit: this.quota.settings.maxLimit,
+      maxResponseTokens: this.maxResponseTokens,
+    });
+
+    if (this.mode === "read-write" && !caller) {
+      console.error("Firestore MCP server running in read-write mode: write tools are enabled");
+    }
+  }
+
+  /** Executor narrowed to an authenticated caller; one instance is kept per distinct identity. */
+  forCaller(caller: CallerIdentity | undefined): FirestoreToolExecutor {
+    if (!caller) {
+      return this;
+    }
+
+    const cacheKey = JSON.stringify(caller);
+    let executor = this.callerExecutors.get(cacheKey);
+    if (!executor) {
+      if (this.callerExecutors.size >= MAX_CALLER_EXECUTORS) {
+        this.callerExecutors.clear();
+      }
+      executor = new FirestoreToolExecutor(this.firestore, {
+        mode: this.mode,
+        policy: this.policy,
+        quota: this.quota,
+        maxResponseTokens: this.maxResponseTokens,
+        checkpoints: this.checkpoints,
+        caller,
+      });
+      this.callerExecutors.set(cacheKey, executor);
+    }
+
+    return executor;
+  }
+
+  listTools(): Tool[] {
+    const tools =
+      this.mode === "read-write"
+        ? [...FIRESTORE_TOOL_DEFINITIONS, ...FIRESTORE_WRITE_TOOL_DEFINITIONS]
+        : FIRESTORE_TOOL_DEFINITIONS;
+
+    return tools.filter((tool) => this.missingScope(tool.name) === undefined);
+  }
+
+  /** Calls without a session (e.g. scripts) share one process-wide session. */
+  async execute(name: string, rawArgs: unknown, session: ToolSession = this.processSession): Promise<CallToolResult> {
+    const reads = this.trackReads(session);
+    const result = await this.dispatch(name, rawArgs, session, reads);
+
+    // stderr keeps the audit trail out of the stdio protocol stream.
+    if (this.caller) {
+      console.error(
+        `[audit] caller=${this.caller.label} tool=${name} status=${result.isError ? "error" : "ok"} reads=${reads.reads}`,
+      );
+    }
+
+    return result;
+  }
+
+  /** Top-level collections as firestore:// resources; callers without the read scope see none. */
+  async listResources(session: ToolSession = this.processSession): Promise<Resource[]> {
+    if (this.missingScope("resources/list")) {
+      return [];
+    }
+
+    return this.runResourceRequest("resources/list", session, (reads) => this.resourceReader.list(reads));
+  }
+
+  listResourceTemplates(): ResourceTemplate[] {
+    return this.missingScope("resources/templates/list") ? [] : FIRESTORE_RESOURCE_TEMPLATES;
+  }
+
+  async readResource(uri: string, session: ToolSession = this.processSession): Promise<ReadResourceResult> {
+    return this.runResourceRequest(`resources/read ${uri}`, session, (reads) => this.resourceReader.read(uri, reads));
+  }
+
+  /**
+   * Starts an onSnapshot listener for a firestore:// URI and returns the function that stops it.
+   * Updates count against the caller's read budget; the listener ends itself once the budget runs out.
+   */
+  async watchResource(
+    uri: string,
+    listener: ResourceListener,
+    session: ToolSession = this.processSession,
+  ): Promise<() => void> {
+    return this.runResourceRequest(`resources/subscribe ${uri}`, session, async (reads) => {
+      const stop = this.resourceReader.watch(uri, reads, {
+        onChange: () => {
+          if (reads.remaining() === 0) {
+            stop();
+            listener.onError(new Error("READ_BUDGET_EXCEEDED: the read budget ran out while listening."));
+            return;
+          }
+          listener.onChange();
+        },
+        onError: listener.onError,
+      });
+      return stop;
+    });
+  }
+
+  listPrompts(): Prompt[] {
+    return this.missingScope("prompts/list") ? [] : FIRESTORE_PROMPTS;
+  }
+
+  /** Prompts gather their live context through the read tools, so policy, scopes and budgets apply per call. */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+    session: ToolSession = this.processSession,
+  ): Promise<GetPromptResult> {
+    return buildPrompt(name, args, (tool, toolArgs) => this.execute(tool, toolArgs, session));
+  }
+
+  // Authenticated callers share one budget across sessions; anonymous ones get one per session, which
+  // on stateless Streamable HTTP means one for every unauthenticated client of the process.
+  private trackReads(session: ToolSession): ReadTracker {
+    return this.quota.track(this.sessionOwner(session));
+  }
+
+  /** Keys read budgets, confirmation tokens and checkpoints: the authenticated caller, else the session. */
+  private sessionOwner(session: ToolSession): string {
+    return this.caller ? `caller:${this.caller.id}` : `session:${session.id}`;
+  }
+
+  /** Resource requests fail with JSON-RPC errors rather than tool results; messages start with the tools' error codes. */
+  private async runResourceRequest<T>(
+    request: string,
+    session: ToolSession,
+    run: (reads: ReadTracker) => Promise<T>,
+  ): Promise<T> {
+    const reads = this.trackReads(session);
+    let status = "error";
+
+    try {
+      const missingScope = this.missingScope(request);
+      if (missingScope) {
+        throw new ResourceError(
+          ErrorCode.InvalidRequest,
+          `INSUFFICIENT_SCOPE: reading resources requires the '${missingScope}' scope.`,
+        );
+      }
+
+      const result = await run(reads);
+      status = "ok";
+      return result;
+    } catch (error) {
+      if (error instanceof PolicyDeniedError) {
+        throw new ResourceError(ErrorCode.InvalidRequest, `POLICY_DENIED: ${error.message}`);
+      }
+
+      if (error instanceof ReadBudgetExceededError) {
+        throw new ResourceError(ErrorCode.InvalidRequest, `READ_BUDGET_EXCEEDED: ${error.message}`);
+      }
+
+      throw error;
+    } finally {
+      if (this.caller) {
+        console.error(`[audit] caller=${this.caller.label} request=${request} status=${status} reads=${reads.reads}`);
+      }
+    }
+  }
+
+  private async dispatch(
+    name: string,
+    rawArgs: unknown,
+    session: ToolSession,
+    reads: ReadTracker,
+  ): Promise<CallToolResult> {
+    try {
+      const missingScope = this.missingScope(name);
+      if (missingScope) {
+        return structuredErrorResult({
+          code: "INSUFFICIENT_SCOPE",
+          message: `Tool '${name}' requires the '${missingScope}' scope, which the access token does not grant.`,
+          requiredScope: missingScope,
+        });
+      }
+
+      if (FIRESTORE_WRITE_TOOL_NAMES.has(name)) {
+        if (this.mode !== "read-write") {
+          return errorResult(
+            this.caller?.mode === "read-only"
+              ? `Tool '${name}' is disabled: caller '${this.caller.label}' is read-only.`
+              : `Tool '${name}' is disabled: the server is read-only. Set FIRESTORE_MCP_MODE=read-write to enable writes.`,
+          );
+        }
+
+        // Tokens are bound to their owner, and anonymous clients of a shared session all have the same one.
+        if (CONFIRMED_WRITE_TOOL_NAMES.has(name) && session.shared && !this.caller) {
+          return structuredErrorResult({
+            code: "CONFIRMATION_UNAVAILABLE",
+            message: `Tool '${name}' needs a confirmation token bound to one client, but unauthenticated clients of this server share a session. Configure API keys or OAuth, or set FIRESTORE_MCP_STATEFUL_SESSIONS=true.`,
+          });
+        }
+
+        return await this.writeExecutor.execute(name, rawArgs, session, this.sessionOwner(session), reads);
+      }
+
+      switch (name) {
+        case "list_collections":
+          return await this.listCollections(reads);
+        case "inspect_collection_schema":
+          return await this.inspectCollectionSchema(rawArgs, reads);
+        case "query_firestore":
+          return await this.queryFirestore(rawArgs, reads);
+        case "watch_query":
+          return await this.watchQuery(rawArgs, this.sessionOwner(session), reads);
+        case "group_by_aggregate":
+          return await this.groupByAggregate(rawArgs, reads);
+        case "get_document":
+          return await this.getDocument(rawArgs, reads);
+        case "list_subcollections":
+          return await this.listSubcollections(rawArgs, reads);
+        case "describe_collection_tree":
+          return await this.describeCollectionTree(rawArgs, reads);
+        default:
+          return errorResult(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      if (error instanceof PolicyDeniedError) {
+        return structuredErrorResult({ code: "POLICY_DENIED", message: error.message });
+      }
+
+      if (error instanceof ReadBudgetExceededError) {
+        return structuredErrorResult({ code: "READ_BUDGET_EXCEEDED", message: error.message, ...error.details });
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      return errorResult(message);
+    }
+  }
+
+  private missingScope(name: string): string | undefined {
+    const scopes = this.caller?.scopes;
+    if (!scopes) {
+      return undefined;
+    }
+
+    const required = FIRESTORE_WRITE_TOOL_NAMES.has(name) ? TOOL_SCOPES.write : TOOL_SCOPES.read;
+    return scopes.includes(required) ? undefined : required;
+  }
+
+  private async listCollections(reads: ReadTracker): Promise<CallToolResult> {
+    reads.reserve(1);
+    const collections = await this.firestore.listCollections();
+    reads.record(1);
+    const names = collections
+      .map((collection) => collection.id)
+      .filter((id) => this.policy.isCollectionAllowed(id))
+      .sort();
+
+    if (names.length === 0) {
+      return successResult("No collections found in the Firestore project.", { collections: [] });
+    }
+
+    const text = [`Found ${names.length} collections:`, "", names.join("\n")].join("\n");
+
+    return successResult(text, { collections: names });
+  }
+
+  private async inspectCollectionSchema(rawArgs: unknown, reads: ReadTracker): Promise<CallToolResult> {
+    const args = this.parseInspectArgs(rawArgs);
+    const { collectionPath, exclude, output } = args;
+    this.policy.assertCollection(collectionPath);
+
+    const docs = await this.sampleDocuments(args, reads);
+
+    if (docs.length === 0) {
+      return successResult(`Collection '${collectionPath}' is empty or does not exist.`, {
+        collectionPath,
+        sampledDocuments: 0,
+        sampling: args.sampling,
+        fields: [],
+      });
+    }
+
+    const collector = new SchemaCollector();
+    for (const doc of docs) {
+      collector.add(omitFieldPaths(doc.data() as Record<string, unknown>, exclude ?? []));
+    }
+
+    const fields = collector.summarize(this.policy);
+    const structured = { collectionPath, sampledDocuments: docs.length, sampling: args.sampling, fields };
+
+    if (args.jsonSchema) {
+      const jsonSchema = collector.toJsonSchema(collectionPath, fields);
+      return successResult(JSON.stringify(jsonSchema, null, 2), { ...structured, jsonSchema });
+    }
+
+    const header = `Schema analysis for collection '${collectionPath}' (sampled ${docs.length} documents, ${args.sampling} sampling):`;
+    const text = output.format
+      ? [header, "", formatRecords(fields.map(toFieldRow), output)].join("\n")
+      : [header, "", ...fields.map((field) => describeField(field, docs.length))].join("\n\n");
+
+    return successResult(text, structured);
+  }
+
+  /** Reads the sample for inspect_collection_schema; random and stratified sampling walk document-id ranges. */
+  private async sampleDocuments(args: InspectArgs, reads: ReadTracker): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+    let query: FirebaseFirestore.Query = this.firestore.collection(args.collectionPath);
+    if (args.select) {
+      query = query.select(...args.select);
+    }
+
+    if (args.sampling === "first") {
+      reads.reserve(args.sampleSize);
+      const snapshot = await query.limit(args.sampleSize).get();
+      reads.record(Math.max(snapshot.size, 1));
+      return snapshot.docs;
+    }
+
+    const ordered = query.orderBy(FieldPath.documentId());
+    const queries =
+      args.sampling === "random"
+        ? randomDocumentIds(args.sampleSize).map((id) => ordered.startAt(id).limit(1))
+        : documentIdStrata(args.sampleSize).map(({ startAt, endBefore, limit }) => {
+            let stratum = startAt === undefined ? ordered : ordered.startAt(startAt);
+            if (endBefore !== undefined) {
+              stratum = stratum.endBefore(endBefore);
+            }
+            return stratum.limit(limit);
+          });
+
+    // Every query costs at least one read, even when its range is empty.
+    reads.reserve(args.sampleSize + queries.length);
+    const snapshots = await Promise.all(queries.map((stratum) => stratum.get()));
+    reads.record(snapshots.reduce((total, snapshot) => total + Math.max(snapshot.size, 1), 0));
+
+    const docs = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+    snapshots.flatMap((snapshot) => snapshot.docs).forEach((doc) => docs.set(doc.ref.path, doc));
+    return Array.from(docs.values());
+  }
+
+  private async queryFirestore(rawArgs: unknown, reads: ReadTracker): Promise<CallToolResult> {
+    const args = this.parseQueryArgs(rawArgs);
+    this.policy.assertQueryTarget(args);
+    flattenFilters(args.filters).forEach((filter) => this.policy.assertFieldUsable(filter.field, "filters"));
+    args.orderBy.forEach((order) => this.policy.assertFieldUsable(order.field, "orderBy"));
+    args.aggregations.forEach(
+      (aggregation) => aggregation.field && this.policy.assertFieldUsable(aggregation.field, "aggregations"),
+    );
+    if (args.aggregations.length > 0) {
+      this.policy.assertAggregatable(args, "aggregations");
+    }
+
+    const filteredQuery = buildFilteredQuery(this.firestore, args, args.filters);
+    let query = filteredQuery;
+
+    const paginated =
+      typeof args.limit === "number" || args.pageToken !== undefined || Object.keys(args.cursors).length > 0;
+
+    // Paginated queries spell out Firestore's implicit ordering so page tokens can name every sort key.
+    const orderBy = paginated ? resolveEffectiveOrderBy(args.filters, args.orderBy) : args.orderBy;
+
+    for (const order of orderBy) {
+      query = query.orderBy(
+        order.field === DOCUMENT_ID_FIELD ? FieldPath.documentId() : order.field,
+        order.direction,
+      );
+    }
+
+    if (args.pageToken) {
+      const tokenFields = args.pageToken.fields.join(",");
+      const queryFields = orderBy.map((order) => order.field).join(",");
+      if (tokenFields !== queryFields) {
+        throw new Error(
+          `pageToken was issued for orderBy [${tokenFields}] but this query orders by [${queryFields}]. Repeat the original filters and orderBy.`,
+        );
+      }
+
+      query = query.startAfter(
+        ...args.pageToken.values.map((value, index) => decodeFirestoreValue(value, this.firestore, `pageToken[${index}]`)),
+      );
+    }
+
+    for (const cursor of CURSOR_ARGUMENTS) {
+      const values = args.cursors[cursor];
+      if (values) {
+        query = query[cursor](...values);
+      }
+    }
+
+    if (args.select) {
+      // Sort keys must be fetched even when not selected for output so page tokens can be built.
+      const fetchFields = new Set(args.select);
+      orderBy.forEach((order) => order.field !== DOCUMENT_ID_FIELD && fetchFields.add(order.field));
+      query = query.select(...fetchFields);
+    }
+
+    if (typeof args.limit === "number") {
+      query = query.limit(args.limit);
+    }
+
+    const lines: string[] = [];
+    const structured: Record<string, unknown> = {};
+
+    if (args.aggregations.length > 0) {
+      reads.reserve(1);
+      const aggregateSnapshot = await filteredQuery.aggregate(buildAggregateSpec(args.aggregations)).get();
+      reads.record(1);
+      const results = aggregateSnapshot.data() as Record<string, number | null>;
+
+      const aggregations: Record<string, number | null> = {};
+      lines.push("Aggregations (all matching documents):");
+      for (const aggregation of args.aggregations) {
+        aggregations[aggregation.name] = results[aggregation.name] ?? null;
+        lines.push(`  ${aggregation.name} = ${results[aggregation.name] ?? "null"} (${describeAggregation(aggregation)})`);
+      }
+      structured.aggregations = aggregations;
+    }
+
+    if (!args.includeDocuments) {
+      return successResult(lines.join("\n"), structured);
+    }
+
+    reads.reserve(args.limit);
+    const snapshot = await query.get();
+    reads.record(Math.max(snapshot.size, 1));
+
+    const docs = this.policy.allowedDocuments(args, snapshot.docs);
+    const sanitizedDocs = docs.map((doc) => {
+      const data = doc.data() as Record<string, unknown>;
+      const projected = args.select ? pickFieldPaths(data, args.select) : data;
+      return {
+        id: doc.id,
+        path: doc.ref.path,
+        ...(this.policy.sanitize(omitFieldPaths(projected, args.exclude ?? [])) as Record<string, unknown>),
+      };
+    });
+
+    lines.unshift(`Found ${docs.length} documents.`);
+
+    const maxResponseTokens = args.maxResponseTokens ?? this.maxResponseTokens;
+    const fitted = fitRecords(sanitizedDocs, maxResponseTokens, (docs) => formatRecords(docs, args.output));
+    const truncation = describeTruncation(fitted, maxResponseTokens);
+    if (truncation) {
+      lines.push(
+        `Response trimmed to about ${maxResponseTokens} tokens: ${truncation.shortenedValues} long value(s) shortened, ${truncation.omittedDocuments} document(s) omitted.${truncation.omittedDocuments > 0 ? " The next page token continues after the last document shown." : ""}`,
+      );
+    }
+
+    // Documents dropped for size are picked up by continuing after the last one returned;
+    // otherwise the next page starts after the last document read, including ones the policy dropped.
+    const lastDoc = fitted.omittedRecords > 0 ? docs[fitted.records.length - 1] : snapshot.docs[snapshot.size - 1];
+    const nextPageToken =
+      (snapshot.size === args.limit || fitted.omittedRecords > 0) && lastDoc ? encodePageToken(lastDoc, orderBy) : null;
+    if (nextPageToken) {
+      lines.push(`Next page token: ${nextPageToken}`);
+    }
+
+    if (fitted.records.length > 0) {
+      lines.push("", formatRecords(fitted.records, args.output));
+    }
+
+    return successResult(lines.join("\n"), {
+      documents: fitted.records,
+      nextPageToken,
+      ...structured,
+      ...(truncation && { truncation }),
+    });
+  }
+
+  private async watchQuery(rawArgs: unknown, owner: string, reads: ReadTracker): Promise<CallToolResult> {
+    const args = this.parseWatchQueryArgs(rawArgs);
+
+    let previous: QueryCheckpoint | undefined;
+    if (args.checkpoint) {
+      previous = await this.checkpoints.load(args.checkpoint);
+      if (!previous || previous.owner !== owner) {
+        return structuredErrorResult({
+          code: "UNKNOWN_CHECKPOINT",
+          message: `Checkpoint '${args.checkpoint}' does not exist or has expired. Call watch_query with the query arguments to start a new one.`,
+        });
+      }
+    }
+
+    // The stored arguments are parsed again so policy changes since the first call apply.
+    const rawQuery = previous?.query ?? args.query;
+    const watch = this.parseWatchQuery(rawQuery);
+    this.policy.assertQueryTarget(watch);
+    flattenFilters(watch.filters).forEach((filter) => this.policy.assertFieldUsable(filter.field, "filters"));
+    watch.orderBy.forEach((order) => this.policy.assertFieldUsable(order.field, "orderBy"));
+
+    let query = buildFilteredQuery(this.firestore, watch, watch.filters);
+    for (const order of watch.orderBy) {
+      query = query.orderBy(
+        order.field === DOCUMENT_ID_FIELD ? FieldPath.documentId() : order.field,
+        order.direction,
+      );
+    }
+    if (watch.select) {
+      query = query.select(...watch.select);
+    }
+
+    reads.reserve(watch.limit);
+    const snapshot = await query.limit(watch.limit).get();
+    reads.record(Math.max(snapshot.size, 1));
+
+    const docs = this.policy.allowedDocuments(watch, snapshot.docs);
+    const documents: Record<string, Record<string, unknown>> = {};
+    for (const doc of docs) {
+      const data = doc.data() as Record<string, unknown>;
+      const projected = watch.select ? pickFieldPaths(data, watch.select) : data;
+      documents[doc.ref.path] = this.policy.sanitize(omitFieldPaths(projected, watch.exclude ?? [])) as Record<string, unknown>;
+    }
+
+    const checkpoint = createCheckpoint(owner, rawQuery, documents);
+    await this.checkpoints.save(checkpoint);
+
+    const changes = diffDocuments(previous?.documents ?? {}, documents);
+    const summary = {
+      added: changes.filter((change) => change.type === "added").length,
+      modified: changes.filter((change) => change.type === "modified").length,
+      removed: changes.filter((change) => change.type === "removed").length,
+    };
+    const limitReached = snapshot.size === watch.limit;
+
+    const lines = [
+      previous
+        ? `Changes since checkpoint ${previous.id} (${previous.createdAt}): ${summary.added} added, ${summary.modified} modified, ${summary.removed} removed.`
+        : `Tracking ${docs.length} documents.`,
+      `Checkpoint: ${checkpoint.id}`,
+    ];
+
+    if (limitReached) {
+      lines.push(`The query returned its limit of ${watch.limit} documents; documents beyond it are not tracked.`);
+    }
+
+    const maxResponseTokens = args.maxResponseTokens ?? this.maxResponseTokens;
+    const fitted = fitRecords(changes, maxResponseTokens, (records) => JSON.stringify(records, null, 2));
+    const truncation = describeTruncation(fitted, maxResponseTokens);
+    if (truncation) {
+      lines.push(
+        `Response trimmed to about ${maxResponseTokens} tokens: ${truncation.shortenedValues} long value(s) shortened, ${truncation.omittedDocuments} change(s) omitted.${previous ? ` Checkpoint ${previous.id} stays valid, so the call can be repeated with a larger maxResponseTokens.` : ""}`,
+      );
+    }
+
+    if (fitted.records.length > 0) {
+      lines.push("", JSON.stringify(fitted.records, null, 2));
+    }
+
+    return successResult(lines.join("\n"), {
+      checkpoint: checkpoint.id,
+      since: previous?.createdAt ?? null,
+      documentCount: docs.length,
+      limitReached,
+      summary,
+      changes: fitted.records,
+      ...(truncation && { truncation }),
+    });
+  }
+
+  private async groupByAggregate(rawArgs: unknown, reads: ReadTracker): Promise<CallToolResult> {
+    const args = this.parseGroupByAggregateArgs(rawArgs);
+    this.policy.assertQueryTarget(args);
+    flattenFilters(args.filters).forEach((filter) => this.policy.assertFieldUsable(filter.field, "filters"));
+    args.metrics.forEach((metric) => metric.field && this.policy.assertFieldUsable(metric.field, "metrics"));
+    // Hashed fields still group correctly because equal values hash equally.
+    args.groupBy.forEach((group) => this.policy.assertFieldUsable(group.field, "groupBy", { allowHashed: true }));
+
+    const query = buildFilteredQuery(this.firestore, args, args.filters);
+
+    // A count aggregation costs one read per 1,000 index entries, so check the budget before scanning.
+    reads.reserve(1);
+    const countSnapshot = await query.count().get();
+    const matching = countSnapshot.data().count;
+    reads.record(Math.max(Math.ceil(matching / 1000), 1));
+
+    if (matching > args.maxReads) {
+      // The count includes documents the policy hides, so it is only reported when nothing is hidden.
+      const amount = this.policy.needsDocumentCheck(args)
+        ? "more documents than maxReads allows"
+        : `${matching} documents, which exceeds maxReads`;
+      throw new Error(
+        `group_by_aggregate would read ${amount} (${args.maxReads}). Narrow the filters or raise maxReads (max ${MAX_GROUP_READS}).`,
+      );
+    }
+
+    const fields = new Set<string>(args.groupBy.map((group) => group.field));
+    args.metrics.forEach((metric) => metric.field && fields.add(metric.field));
 
-type OrderByArg = {
-  field: string;
-  direction: OrderDirection;
-};
+    reads.reserve(matching);
+    const snapshot = await query.select(...fields).get();
+    reads.record(Math.max(snapshot.size, 1));
 
-type AggregationArg = {
-  count?: boolean;
-  sum?: string;
-  avg?: string;
-};
+    const docs = this.policy.allowedDocuments(args, snapshot.docs);
+    const groups = new Map<string, GroupAccumulator>();
 
-type QueryArgs = {
-  collectionPath: string;
-  filters: FilterArg[];
-  orderBy: OrderByArg[];
-  limit?: number;
-  aggregation?: AggregationArg;
-};
+    for (const doc of docs) {
+      const data = doc.data() as Record<string, unknown>;
+      const key = args.groupBy.map((group) => groupKeyValue(getFieldValue(data, group.field), group.bucket));
+      const keyString = JSON.stringify(key);
 
-export class FirestoreToolExecutor {
-  constructor(private readonly firestore: Firestore) {}
+      let accumulator = groups.get(keyString);
+      if (!accumulator) {
+        accumulator = { key, count: 0, sums: new Map(), mins: new Map(), maxs: new Map() };
+        groups.set(keyString, accumulator);
+      }
 
-  async execute(name: string, rawArgs: unknown): Promise<CallToolResult> {
-    try {
-      switch (name) {
-        case "list_collections":
-          return await this.listCollections();
-        case "inspect_collection_schema":
-          return await this.inspectCollectionSchema(rawArgs);
-        case "query_firestore":
-          return await this.queryFirestore(rawArgs);
-        default:
-          return errorResult(`Unknown tool: ${name}`);
+      accumulator.count += 1;
+
+      for (const metric of args.metrics) {
+        if (!metric.field) {
+          continue;
+        }
+
+        const value = getFieldValue(data, metric.field);
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          continue;
+        }
+
+        const total = accumulator.sums.get(metric.field) ?? { sum: 0, count: 0 };
+        accumulator.sums.set(metric.field, { sum: total.sum + value, count: total.count + 1 });
+        accumulator.mins.set(metric.field, Math.min(accumulator.mins.get(metric.field) ?? value, value));
+        accumulator.maxs.set(metric.field, Math.max(accumulator.maxs.get(metric.field) ?? value, value));
       }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return errorResult(message);
     }
-  }
 
-  private async listCollections(): Promise<CallToolResult> {
-    const collections = await this.firestore.listCollections();
-    const names = collections.map((collection) => collection.id).sort();
+    const rows = Array.from(groups.values())
+      .sort((a, b) => compareGroupKeys(a.key, b.key))
+      .map((accumulator) => {
+        const group: Record<string, unknown> = {};
+        args.groupBy.forEach((groupBy, index) => {
+          group[groupBy.bucket ? `${groupBy.field} (${groupBy.bucket})` : groupBy.field] = this.policy.protect(
+            groupBy.field,
+            accumulator.key[index],
+          );
+        });
+
+        const metrics: Record<string, number | null> = {};
+        for (const metric of args.metrics) {
+          metrics[metric.name] = computeGroupMetric(accumulator, metric);
+        }
+
+        return { group, ...metrics };
+      });
 
-    if (names.length === 0) {
-      return successResult("No collections found in the Firestore project.");
+    const groupLabel = args.groupBy
+      .map((group) => (group.bucket ? `${group.field} (${group.bucket})` : group.field))
+      .join(", ");
+
+    if (rows.length === 0) {
+      return successResult(`No documents matched; nothing to group by ${groupLabel}.`, { documentsGrouped: 0, groups: [] });
     }
 
-    const text = [`Found ${names.length} collections:`, "", names.join("\n")].join("\n");
+    const text = [
+      `Grouped ${docs.length} documents into ${rows.length} groups by ${groupLabel}.`,
+      "",
+      formatRecords(rows, args.output),
+    ].join("\n");
 
-    return successResult(text);
+    return successResult(text, { documentsGrouped: docs.length, groups: rows });
   }
 
-  private async inspectCollectionSchema(rawArgs: unknown): Promise<CallToolResult> {
-    const { collectionPath, sampleSize } = this.parseInspectArgs(rawArgs);
-
-    const snapshot = await this.firestore
-      .collection(collectionPath)
-      .limit(sampleSize)
-      .get();
+  private async getDocument(rawArgs: unknown, reads: ReadTracker): Promise<CallToolResult> {
+    const args = this.parseGetDocumentArgs(rawArgs);
+    args.paths.forEach((path) => this.policy.assertDocument(path));
+
+    // Each subcollection listing costs one more read per document.
+    reads.reserve(args.paths.length * (args.includeSubcollections ? 2 : 1));
+
+    const refs = args.paths.map((path) => this.firestore.doc(path));
+    const snapshots = args.fields
+      ? await this.firestore.getAll(...refs, { fieldMask: args.fields })
+      : await this.firestore.getAll(...refs);
+    reads.record(snapshots.length);
+
+    const documents = await Promise.all(
+      snapshots.map(async (snapshot) => {
+        if (!snapshot.exists) {
+          return { path: snapshot.ref.path, id: snapshot.id, exists: false };
+        }
+
+        const result: Record<string, unknown> = {
+          path: snapshot.ref.path,
+          id: snapshot.id,
+          exists: true,
+          createTime: sanitizeFirestoreValue(snapshot.createTime),
+          updateTime: sanitizeFirestoreValue(snapshot.updateTime),
+          data: this.policy.sanitize(snapshot.data()),
+        };
+
+        if (args.includeSubcollections) {
+          const subcollections = await snapshot.ref.listCollections();
+          reads.record(1);
+          result.subcollections = subcollections
+            .filter((collection) => this.policy.isCollectionAllowed(collection.path))
+            .map((collection) => collection.id)
+            .sort();
+        }
+
+        return result;
+      }),
+    );
+
+    const missingCount = documents.filter((doc) => !doc.exists).length;
+    const header =
+      args.paths.length === 1
+        ? missingCount === 0
+          ? `Document '${args.paths[0]}' found.`
+          : `Document '${args.paths[0]}' does not exist.`
+        : `Fetched ${documents.length} documents (${missingCount} missing).`;
+
+    // A single document keeps its bare-object JSON; other formats always render a list.
+    const render = (records: Array<Record<string, unknown>>) =>
+      args.output.format === undefined && args.paths.length === 1
+        ? JSON.stringify(records[0], null, 2)
+        : formatRecords(records, args.output);
+
+    const maxResponseTokens = args.maxResponseTokens ?? this.maxResponseTokens;
+    const fitted = fitRecords(documents, maxResponseTokens, render);
+    const truncation = describeTruncation(fitted, maxResponseTokens);
+    const notes = truncation
+      ? [
+          `Response trimmed to about ${maxResponseTokens} tokens: ${truncation.shortenedValues} long value(s) shortened, ${truncation.omittedDocuments} document(s) omitted.`,
+          ...(truncation.omittedDocuments > 0
+            ? [`Omitted: ${documents.slice(fitted.records.length).map((doc) => doc.path).join(", ")}`]
+            : []),
+        ]
+      : [];
+
+    return successResult([header, ...notes, "", render(fitted.records)].join("\n"), {
+      documents: fitted.records,
+      missing: missingCount,
+      ...(truncation && { truncation }),
+    });
+  }
 
-    if (snapshot.empty) {
-      return successResult(`Collection '${collectionPath}' is empty or does not exist.`);
+  private async listSubcollections(rawArgs: unknown, reads: ReadTracker): Promise<CallToolResult> {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("list_subcollections expects an object with documentPath (string).");
     }
 
-    const schema: Record<string, Set<string>> = {};
-    const examples: Record<string, unknown> = {};
+    const documentPath = parseDocumentPath(rawArgs["documentPath"], "documentPath");
+    this.policy.assertDocument(documentPath);
 
-    snapshot.docs.forEach((doc) => {
-      const data = doc.data();
-      if (data && typeof data === "object") {
-        this.collectSchema(data as Record<string, unknown>, schema, examples);
-      }
-    });
+    reads.reserve(1);
+    const collections = await this.firestore.doc(documentPath).listCollections();
+    reads.record(1);
+    const names = collections
+      .filter((collection) => this.policy.isCollectionAllowed(collection.path))
+      .map((collection) => collection.id)
+      .sort();
 
-    const summaryLines = Object.entries(schema)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([field, types]) => {
-        const example = sanitizeFirestoreValue(examples[field]);
-        return [
-          `Field: ${field}`,
-          `  Types: ${Array.from(types).join(", ")}`,
-          `  Example: ${JSON.stringify(example, null, 2)}`,
-        ].join("\n");
-      });
+    if (names.length === 0) {
+      return successResult(`Document '${documentPath}' has no subcollections.`, { documentPath, subcollections: [] });
+    }
 
     const text = [
-      `Schema analysis for collection '${collectionPath}' (sampled ${snapshot.size} documents):`,
+      `Found ${names.length} subcollections under '${documentPath}':`,
       "",
-      ...summaryLines,
-    ].join("\n\n");
+      names.map((name) => `${documentPath}/${name}`).join("\n"),
+    ].join("\n");
 
-    return successResult(text);
+    return successResult(text, { documentPath, subcollections: names });
   }
 
-  private async queryFirestore(rawArgs: unknown): Promise<CallToolResult> {
-    const args = this.parseQueryArgs(rawArgs);
+  private async describeCollectionTree(rawArgs: unknown, reads: ReadTracker): Promise<CallToolResult> {
+    const args = this.parseCollectionTreeArgs(rawArgs);
 
-    let query: FirebaseFirestore.Query = this.firestore.collection(args.collectionPath);
+    // The walk stops at whichever comes first: maxReads or the caller's remaining read budget.
+    reads.reserve(1);
+    const readLimit = Math.min(args.maxReads, reads.remaining());
 
-    for (const filter of args.filters) {
-      query = query.where(filter.field, filter.operator, filter.value);
-    }
+    let used = 0;
+    let truncated = false;
+    const nodes = new Map<string, CollectionTreeNode>();
+    const queue: Array<{ collection: FirebaseFirestore.CollectionReference; pattern: string; depth: number }> = [];
 
-    for (const order of args.orderBy) {
-      query = query.orderBy(order.field, order.direction);
-    }
+    const enqueue = (collection: FirebaseFirestore.CollectionReference, pattern: string, depth: number) => {
+      // Collections hidden by the access policy are skipped as if they did not exist.
+      if (!this.policy.isCollectionAllowed(collection.path)) {
+        return;
+      }
 
-    if (typeof args.limit === "number") {
-      query = query.limit(args.limit);
-    }
+      let node = nodes.get(pattern);
+      if (!node) {
+        node = { pattern, depth, collectionsSampled: 0, documentsSampled: 0 };
+        nodes.set(pattern, node);
+      }
 
-    let aggregateCount: number | undefined;
-    if (args.aggregation?.count) {
-      const countSnapshot = await query.count().get();
-      const count = countSnapshot.data().count;
-      aggregateCount = typeof count === "number" ? count : undefined;
-    }
+      // Sibling collections sharing a pattern (users/a/orders, users/b/orders) are sampled, not exhausted.
+      if (node.collectionsSampled < args.sampleSize) {
+        node.collectionsSampled += 1;
+        queue.push({ collection, pattern, depth });
+      }
+    };
 
-    const snapshot = await query.get();
-    const rawDocs = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      data: doc.data() as Record<string, unknown>,
-    }));
+    if (args.collectionPath) {
+      this.policy.assertCollection(args.collectionPath);
+      enqueue(this.firestore.collection(args.collectionPath), toCollectionPattern(args.collectionPath), 1);
+    } else {
+      used += 1;
+      const roots = await this.firestore.listCollections();
+      roots.forEach((collection) => enqueue(collection, collection.id, 1));
+    }
 
-    const sanitizedDocs = rawDocs.map(({ id, data }) => ({
-      id,
-      ...(sanitizeFirestoreValue(data) as Record<string, unknown>),
-    }));
+    while (queue.length > 0) {
+      const { collection, pattern, depth } = queue.shift()!;
 
-    const lines: string[] = [`Found ${rawDocs.length} documents.`];
+      if (used >= readLimit) {
+        truncated = true;
+        break;
+      }
 
-    if (typeof aggregateCount === "number") {
-      lines.push(`Aggregate count: ${aggregateCount}`);
-    }
+      const snapshot = await collection.limit(Math.min(args.sampleSize, readLimit - used)).get();
+      used += Math.max(snapshot.size, 1);
+      nodes.get(pattern)!.documentsSampled += snapshot.size;
 
-    if (args.aggregation?.sum) {
-      const stats = collectNumericStats(rawDocs, args.aggregation.sum);
-      lines.push(
-        formatNumericLine(
-          `Sum of '${args.aggregation.sum}'`,
-          stats.sum,
-          stats.validCount,
-          stats.invalidCount,
-        ),
-      );
-    }
+      if (depth >= args.maxDepth) {
+        continue;
+      }
 
-    if (args.aggregation?.avg) {
-      const stats = collectNumericStats(rawDocs, args.aggregation.avg);
-      lines.push(
-        formatNumericLine(
-          `Average of '${args.aggregation.avg}'`,
-          stats.average,
-          stats.validCount,
-          stats.invalidCount,
-        ),
-      );
+      for (const doc of snapshot.docs) {
+        if (used >= readLimit) {
+          truncated = true;
+          break;
+        }
+
+        used += 1;
+        const subcollections = await doc.ref.listCollections();
+        subcollections.forEach((subcollection) =>
+          enqueue(subcollection, `${pattern}/{id}/${subcollection.id}`, depth + 1),
+        );
+      }
     }
 
-    if (sanitizedDocs.length > 0) {
-      lines.push("", JSON.stringify(sanitizedDocs, null, 2));
-    }
+    reads.record(used);
 
-    return successResult(lines.join("\n"));
-  }
+    const collections = Array.from(nodes.values()).sort((a, b) => a.pattern.localeCompare(b.pattern));
+    const structured = { collections, readsUsed: used, readLimit, truncated };
 
-  private collectSchema(
-    data: Record<string, unknown>,
-    schema: Record<string, Set<string>>,
-    examples: Record<string, unknown>,
-    prefix = "",
-  ): void {
-    for (const [key, value] of Object.entries(data)) {
-      const fieldPath = prefix ? `${prefix}.${key}` : key;
-      const type = describeValueType(value);
+    if (nodes.size === 0) {
+      return successResult("No collections found in the Firestore project.", structured);
+    }
 
-      if (!schema[fieldPath]) {
-        schema[fieldPath] = new Set<string>();
-        examples[fieldPath] = value;
-      }
+    const lines = collections.map(
+      (node) =>
+        `${"  ".repeat(node.depth - 1)}${node.pattern} (sampled ${node.documentsSampled} documents across ${node.collectionsSampled} collections)`,
+    );
 
-      schema[fieldPath]!.add(type);
+    const header = `Collection tree${args.collectionPath ? ` for '${args.collectionPath}'` : ""} (max depth ${args.maxDepth}, ${used} reads used of ${readLimit}):`;
+    const footer = truncated
+      ? ["", readLimit < args.maxReads
+          ? "Remaining read budget exhausted; the tree may be incomplete. Narrow collectionPath or wait for the budget to reset."
+          : "Read budget exhausted; the tree may be incomplete. Increase maxReads or narrow collectionPath to see more."]
+      : [];
 
-      if (type === "object" && isPlainObject(value)) {
-        this.collectSchema(value as Record<string, unknown>, schema, examples, fieldPath);
-      }
-    }
+    return successResult([header, "", ...lines, ...footer].join("\n"), structured);
   }
 
-  private parseInspectArgs(rawArgs: unknown): { collectionPath: string; sampleSize: number } {
+  private parseInspectArgs(rawArgs: unknown): InspectArgs {
     if (!isPlainObject(rawArgs)) {
       throw new Error("inspect_collection_schema expects an object with collectionPath (string) and optional sampleSize (number).");
     }
@@ -329,9 +1677,101 @@ export class FirestoreToolExecutor {
       sampleSize = sampleSizeRaw;
     }
 
+    if (sampleSize > this.quota.settings.maxSampleSize) {
+      throw new Error(`sampleSize must not exceed ${this.quota.settings.maxSampleSize}.`);
+    }
+
+    const { sampling, jsonSchema } = rawArgs;
+    if (sampling !== undefined && !SAMPLING_STRATEGIES.includes(sampling as SamplingStrategy)) {
+      throw new Error(`sampling must be one of: ${SAMPLING_STRATEGIES.join(", ")}.`);
+    }
+
+    if (jsonSchema !== undefined && typeof jsonSchema !== "boolean") {
+      throw new Error("jsonSchema must be a boolean when provided.");
+    }
+
+    const output = parseOutputFormatArgs(rawArgs);
+    if (jsonSchema && output.format) {
+      throw new Error("jsonSchema cannot be combined with format; the JSON Schema is always printed as JSON.");
+    }
+
     return {
       collectionPath: collectionPathRaw.trim(),
       sampleSize,
+      sampling: (sampling as SamplingStrategy | undefined) ?? "first",
+      jsonSchema: jsonSchema ?? false,
+      select: parseFieldPathList(rawArgs["select"], "select"),
+      exclude: parseFieldPathList(rawArgs["exclude"], "exclude"),
+      output,
+    };
+  }
+
+  private parseGetDocumentArgs(rawArgs: unknown): GetDocumentArgs {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("get_document expects an object with path (string) or paths (string[]).");
+    }
+
+    const { path, paths, fields, includeSubcollections } = rawArgs;
+
+    if (path !== undefined && paths !== undefined) {
+      throw new Error("Provide either path or paths, not both.");
+    }
+
+    let parsedPaths: string[];
+    if (path !== undefined) {
+      parsedPaths = [parseDocumentPath(path, "path")];
+    } else if (paths !== undefined) {
+      if (!Array.isArray(paths) || paths.length === 0) {
+        throw new Error("paths must be a non-empty array of document paths.");
+      }
+      if (paths.length > MAX_GET_DOCUMENT_PATHS) {
+        throw new Error(`paths accepts at most ${MAX_GET_DOCUMENT_PATHS} document paths per call.`);
+      }
+      parsedPaths = paths.map((item, index) => parseDocumentPath(item, `paths[${index}]`));
+    } else {
+      throw new Error("get_document requires either path or paths.");
+    }
+
+    if (includeSubcollections !== undefined && typeof includeSubcollections !== "boolean") {
+      throw new Error("includeSubcollections must be a boolean when provided.");
+    }
+
+    return {
+      paths: parsedPaths,
+      fields: parseFieldPathList(fields, "fields"),
+      includeSubcollections: includeSubcollections ?? false,
+      maxResponseTokens: parsePositiveInteger(rawArgs["maxResponseTokens"], "maxResponseTokens"),
+      output: parseOutputFormatArgs(rawArgs),
+    };
+  }
+
+  private parseCollectionTreeArgs(rawArgs: unknown): CollectionTreeArgs {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("describe_collection_tree expects an object with optional collectionPath, maxDepth, sampleSize and maxReads.");
+    }
+
+    const { collectionPath, maxDepth, sampleSize, maxReads } = rawArgs;
+
+    let parsedCollectionPath: string | undefined;
+    if (collectionPath !== undefined) {
+      parsedCollectionPath = parseCollectionPath(collectionPath, "collectionPath");
+    }
+
+    const parsedSampleSize = parsePositiveInteger(sampleSize, "sampleSize") ?? DEFAULT_TREE_SAMPLE_SIZE;
+    if (parsedSampleSize > this.quota.settings.maxSampleSize) {
+      throw new Error(`sampleSize must not exceed ${this.quota.settings.maxSampleSize}.`);
+    }
+
+    const parsedMaxReads = parsePositiveInteger(maxReads, "maxReads") ?? DEFAULT_TREE_MAX_READS;
+    if (parsedMaxReads > MAX_TREE_READS) {
+      throw new Error(`maxReads must not exceed ${MAX_TREE_READS}.`);
+    }
+
+    return {
+      collectionPath: parsedCollectionPath,
+      maxDepth: parsePositiveInteger(maxDepth, "maxDepth") ?? DEFAULT_TREE_MAX_DEPTH,
+      sampleSize: parsedSampleSize,
+      maxReads: parsedMaxReads,
     };
   }
 
@@ -340,61 +1780,140 @@ export class FirestoreToolExecutor {
       throw new Error("query_firestore expects an object with query parameters.");
     }
 
-    const { collectionPath, filters, orderBy, limit, aggregation } = rawArgs;
+    const { filters, orderBy, limit, pageToken, includeDocuments } = rawArgs;
 
-    if (typeof collectionPath !== "string" || collectionPath.trim() === "") {
-      throw new Error("collectionPath must be a non-empty string.");
+    const target = parseQueryTarget(rawArgs, "query_firestore");
+    const parsedFilters = parseFilters(this.firestore, filters);
+    const parsedOrderBy = this.parseOrderBy(orderBy);
+    // Unbounded queries are capped at FIRESTORE_MCP_MAX_LIMIT and paginate from there.
+    const parsedLimit = this.parseLimit(limit) ?? this.quota.settings.maxLimit;
+    const parsedPageToken = pageToken === undefined ? undefined : decodePageToken(pageToken);
+    const parsedCursors = this.parseCursors(rawArgs);
+    const parsedAggregations = this.parseAggregations(rawArgs);
+
+    if (includeDocuments !== undefined && typeof includeDocuments !== "boolean") {
+      throw new Error("includeDocuments must be a boolean when provided.");
     }
 
-    const parsedFilters = this.parseFilters(filters);
-    const parsedOrderBy = this.parseOrderBy(orderBy);
-    const parsedLimit = this.parseLimit(limit);
-    const parsedAggregation = this.parseAggregation(aggregation);
+    if (includeDocuments === false && parsedAggregations.length === 0) {
+      throw new Error("includeDocuments: false requires at least one aggregation.");
+    }
+
+    if (parsedPageToken && (parsedCursors.startAt || parsedCursors.startAfter)) {
+      throw new Error("pageToken cannot be combined with startAt or startAfter.");
+    }
 
     return {
-      collectionPath: collectionPath.trim(),
+      ...target,
       filters: parsedFilters,
       orderBy: parsedOrderBy,
       limit: parsedLimit,
-      aggregation: parsedAggregation,
+      select: parseFieldPathList(rawArgs["select"], "select"),
+      exclude: parseFieldPathList(rawArgs["exclude"], "exclude"),
+      pageToken: parsedPageToken,
+      cursors: parsedCursors,
+      aggregations: parsedAggregations,
+      includeDocuments: includeDocuments ?? true,
+      maxResponseTokens: parsePositiveInteger(rawArgs["maxResponseTokens"], "maxResponseTokens"),
+      output: parseOutputFormatArgs(rawArgs),
     };
   }
 
-  private parseFilters(value: unknown): FilterArg[] {
-    if (value === undefined) {
-      return [];
+  private parseWatchQueryArgs(rawArgs: unknown): WatchQueryArgs {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("watch_query expects an object with query parameters or a checkpoint.");
     }
 
-    if (!Array.isArray(value)) {
-      throw new Error("filters must be an array when provided.");
-    }
+    const { checkpoint, maxResponseTokens, ...query } = rawArgs;
 
-    return value.map((item, index) => {
-      if (!isPlainObject(item)) {
-        throw new Error(`filters[${index}] must be an object with field, operator, and value.`);
+    if (checkpoint !== undefined) {
+      if (typeof checkpoint !== "string" || checkpoint.trim() === "") {
+        throw new Error("checkpoint must be a non-empty string when provided.");
       }
 
-      const field = item["field"];
-      const operator = item["operator"];
+      if (Object.keys(query).length > 0) {
+        throw new Error(
+          `checkpoint already carries its query; remove ${Object.keys(query).join(", ")} or omit checkpoint to start a new watch.`,
+        );
+      }
+    }
 
-      if (typeof field !== "string" || field.trim() === "") {
-        throw new Error(`filters[${index}].field must be a non-empty string.`);
+    return {
+      query,
+      checkpoint: checkpoint?.trim(),
+      maxResponseTokens: parsePositiveInteger(maxResponseTokens, "maxResponseTokens"),
+    };
+  }
+
+  private parseWatchQuery(rawQuery: Record<string, unknown>): WatchQuery {
+    return {
+      ...parseQueryTarget(rawQuery, "watch_query"),
+      filters: parseFilters(this.firestore, rawQuery["filters"]),
+      orderBy: this.parseOrderBy(rawQuery["orderBy"]),
+      limit: this.parseLimit(rawQuery["limit"]) ?? this.quota.settings.maxLimit,
+      select: parseFieldPathList(rawQuery["select"], "select"),
+      exclude: parseFieldPathList(rawQuery["exclude"], "exclude"),
+    };
+  }
+
+  private parseGroupByAggregateArgs(rawArgs: unknown): GroupByAggregateArgs {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("group_by_aggregate expects an object with collectionPath or collectionGroup and groupBy.");
+    }
+
+    const target = parseQueryTarget(rawArgs, "group_by_aggregate");
+    const { groupBy, metrics, maxReads } = rawArgs;
+
+    if (!Array.isArray(groupBy) || groupBy.length === 0) {
+      throw new Error("groupBy must be a non-empty array of field paths or {field, bucket} objects.");
+    }
+
+    const parsedGroupBy = groupBy.map((item, index): GroupByArg => {
+      if (typeof item === "string" && item.trim() !== "") {
+        return { field: item.trim() };
       }
 
-      if (typeof operator !== "string" || !WHERE_OPERATOR_SET.has(operator as WhereOperator)) {
-        throw new Error(`filters[${index}].operator must be one of: ${WHERE_OPERATORS.join(", ")}.`);
+      if (!isPlainObject(item) || typeof item["field"] !== "string" || item["field"].trim() === "") {
+        throw new Error(`groupBy[${index}] must be a field path string or an object with a non-empty field.`);
       }
 
-      if (!Object.prototype.hasOwnProperty.call(item, "value")) {
-        throw new Error(`filters[${index}] must include a value property.`);
+      const bucket = item["bucket"];
+      if (bucket !== undefined && (typeof bucket !== "string" || !TIME_BUCKET_SET.has(bucket as TimeBucket))) {
+        throw new Error(`groupBy[${index}].bucket must be one of: ${TIME_BUCKETS.join(", ")}.`);
       }
 
-      return {
-        field: field.trim(),
-        operator: operator as WhereOperator,
-        value: item["value"],
-      };
+      return { field: item["field"].trim(), bucket: bucket as TimeBucket | undefined };
     });
+
+    const parsedMetrics: GroupMetricArg[] = [];
+    if (metrics === undefined) {
+      parsedMetrics.push({ name: "count", operation: "count" });
+    } else {
+      if (!isPlainObject(metrics) || Object.keys(metrics).length === 0) {
+        throw new Error("metrics must be a non-empty object mapping names to {operation, field} when provided.");
+      }
+
+      // Result rows are {group, ...metrics}, so a metric named group would hide the group key.
+      if (Object.prototype.hasOwnProperty.call(metrics, "group")) {
+        throw new Error("metrics.group is reserved for the group key; choose another metric name.");
+      }
+
+      parsedMetrics.push(...parseMetricSpecs(metrics, "metrics", GROUP_METRIC_OPERATION_SET));
+    }
+
+    const parsedMaxReads = parsePositiveInteger(maxReads, "maxReads") ?? DEFAULT_GROUP_MAX_READS;
+    if (parsedMaxReads > MAX_GROUP_READS) {
+      throw new Error(`maxReads must not exceed ${MAX_GROUP_READS}.`);
+    }
+
+    return {
+      ...target,
+      filters: parseFilters(this.firestore, rawArgs["filters"]),
+      groupBy: parsedGroupBy,
+      metrics: parsedMetrics,
+      maxReads: parsedMaxReads,
+      output: parseOutputFormatArgs(rawArgs),
+    };
   }
 
   private parseOrderBy(value: unknown): OrderByArg[] {
@@ -438,228 +1957,431 @@ export class FirestoreToolExecutor {
       throw new Error("limit must be a positive integer when provided.");
     }
 
+    if (value > this.quota.settings.maxLimit) {
+      throw new Error(`limit must not exceed ${this.quota.settings.maxLimit}.`);
+    }
+
     return value;
   }
 
-  private parseAggregation(value: unknown): AggregationArg | undefined {
-    if (value === undefined) {
-      return undefined;
+  private parseCursors(rawArgs: Record<string, any>): CursorArgs {
+    const result: CursorArgs = {};
+
+    for (const cursor of CURSOR_ARGUMENTS) {
+      const value = rawArgs[cursor];
+      if (value === undefined) {
+        continue;
+      }
+
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`${cursor} must be a non-empty array of orderBy values when provided.`);
+      }
+
+      result[cursor] = value.map((item, index) => decodeFirestoreValue(item, this.firestore, `${cursor}[${index}]`));
     }
 
-    if (!isPlainObject(value)) {
-      throw new Error("aggregation must be an object when provided.");
+    if (result.startAt && result.startAfter) {
+      throw new Error("Provide either startAt or startAfter, not both.");
     }
 
-    const result: AggregationArg = {};
+    if (result.endAt && result.endBefore) {
+      throw new Error("Provide either endAt or endBefore, not both.");
+    }
+
+    return result;
+  }
+
+  private parseAggregations(rawArgs: Record<string, any>): AggregationSpec[] {
+    const result: AggregationSpec[] = [];
+    const { aggregation, aggregations } = rawArgs;
+
+    if (aggregation !== undefined) {
+      if (!isPlainObject(aggregation)) {
+        throw new Error("aggregation must be an object when provided.");
+      }
+
+      if (Boolean(aggregation["count"])) {
+        result.push({ name: "count", operation: "count" });
+      }
 
-    if (Object.prototype.hasOwnProperty.call(value, "count")) {
-      result.count = Boolean(value["count"]);
+      for (const operation of ["sum", "avg"] as const) {
+        if (!Object.prototype.hasOwnProperty.call(aggregation, operation)) {
+          continue;
+        }
+
+        const field = aggregation[operation];
+        if (typeof field !== "string" || field.trim() === "") {
+          throw new Error(`aggregation.${operation} must be a non-empty string when provided.`);
+        }
+        // Aliases must be plain keys, so nested paths like 'totals.net' become 'sum_totals_net'.
+        result.push({ name: `${operation}_${field.trim().replace(/\W/g, "_")}`, operation, field: field.trim() });
+      }
     }
 
-    if (Object.prototype.hasOwnProperty.call(value, "sum")) {
-      const field = value["sum"];
-      if (typeof field !== "string" || field.trim() === "") {
-        throw new Error("aggregation.sum must be a non-empty string when provided.");
+    if (aggregations !== undefined) {
+      if (!isPlainObject(aggregations)) {
+        throw new Error("aggregations must be an object mapping names to {operation, field} when provided.");
       }
-      result.sum = field.trim();
+
+      result.push(...parseMetricSpecs(aggregations, "aggregations", AGGREGATION_OPERATION_SET));
     }
 
-    if (Object.prototype.hasOwnProperty.call(value, "avg")) {
-      const field = value["avg"];
-      if (typeof field !== "string" || field.trim() === "") {
-        throw new Error("aggregation.avg must be a non-empty string when provided.");
+    const names = new Set<string>();
+    for (const spec of result) {
+      if (names.has(spec.name)) {
+        throw new Error(
+          `Duplicate aggregation name '${spec.name}'. The aggregation shorthand names its results count, sum_<field> and avg_<field>; pick another name in aggregations.`,
+        );
       }
-      result.avg = field.trim();
+      names.add(spec.name);
+    }
+
+    if (result.length > MAX_AGGREGATIONS) {
+      throw new Error(`At most ${MAX_AGGREGATIONS} aggregations can be computed per query.`);
     }
 
-    return Object.keys(result).length === 0 ? undefined : result;
+    return result;
   }
 }
 
-function successResult(text: string): CallToolResult {
-  return {
-    content: [
-      {
-        type: "text",
-        text,
-      },
-    ],
-  };
+/**
+ * Parses a {name: {operation, field}} map shared by query_firestore aggregations and
+ * group_by_aggregate metrics; count takes no field, every other operation requires one.
+ */
+function parseMetricSpecs<T extends string>(
+  value: Record<string, unknown>,
+  label: string,
+  operations: ReadonlySet<T>,
+): Array<{ name: string; operation: T; field?: string }> {
+  return Object.entries(value).map(([name, spec]) => {
+    const specLabel = `${label}.${name}`;
+    if (name.trim() === "") {
+      throw new Error(`${label} names must be non-empty strings.`);
+    }
+
+    if (!isPlainObject(spec)) {
+      throw new Error(`${specLabel} must be an object with operation and field.`);
+    }
+
+    const operation = spec["operation"];
+    if (typeof operation !== "string" || !operations.has(operation as T)) {
+      throw new Error(`${specLabel}.operation must be one of: ${Array.from(operations).join(", ")}.`);
+    }
+
+    const field = spec["field"];
+    if (operation === "count") {
+      if (field !== undefined) {
+        throw new Error(`${specLabel}.field is not allowed for count.`);
+      }
+      return { name, operation: operation as T };
+    }
+
+    if (typeof field !== "string" || field.trim() === "") {
+      throw new Error(`${specLabel}.field must be a non-empty string for ${operation}.`);
+    }
+    return { name, operation: operation as T, field: field.trim() };
+  });
 }
 
-function errorResult(message: string): CallToolResult {
+/** Table row for formatted schema output; counts are folded into readable strings. */
+function toFieldRow(field: FieldSummary): Record<string, unknown> {
   return {
-    content: [
-      {
-        type: "text",
-        text: message,
-      },
-    ],
-    isError: true,
+    field: field.field,
+    presence: `${field.presence}%`,
+    types: formatCounts(field.typeCounts),
+    itemTypes: field.itemTypes ? formatCounts(field.itemTypes) : "",
+    min: field.min ?? null,
+    max: field.max ?? null,
+    distinctValues: field.distinctValues ?? null,
+    enum: field.enum?.join(", ") ?? "",
+    example: field.example,
   };
 }
 
-function describeValueType(value: unknown): string {
-  if (value === null) {
-    return "null";
-  }
+function describeField(field: FieldSummary, sampledDocuments: number): string {
+  const lines = [
+    `Field: ${field.field}`,
+    `  Presence: ${field.presence}% (${field.count} of ${sampledDocuments})`,
+    `  Types: ${formatCounts(field.typeCounts)}`,
+  ];
 
-  if (value === undefined) {
-    return "undefined";
+  if (field.itemTypes) {
+    lines.push(`  Array items: ${formatCounts(field.itemTypes)}`);
   }
-
-  if (Array.isArray(value)) {
-    return "array";
+  if (field.min !== undefined) {
+    lines.push(`  Range: ${JSON.stringify(field.min)} .. ${JSON.stringify(field.max)}`);
   }
-
-  if (value instanceof Date) {
-    return "timestamp";
+  if (field.distinctValues !== undefined) {
+    lines.push(`  Distinct values: ${field.distinctValues}`);
+  }
+  if (field.enum) {
+    lines.push(`  Enum: ${field.enum.map((value) => JSON.stringify(value)).join(", ")}`);
   }
 
-  if (value && typeof value === "object") {
-    const ctorName = value.constructor?.name;
-
-    if (ctorName === "Timestamp" && typeof (value as { toDate?: () => Date }).toDate === "function") {
-      return "timestamp";
-    }
+  lines.push(`  Example: ${JSON.stringify(field.example, null, 2)}`);
+  return lines.join("\n");
+}
 
-    if (ctorName === "GeoPoint") {
-      return "geopoint";
-    }
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .map(([type, count]) => `${type} (${count})`)
+    .join(", ");
+}
 
-    if (ctorName === "DocumentReference") {
-      return "reference";
+function resolveEffectiveOrderBy(filters: FilterNode[], orderBy: OrderByArg[]): OrderByArg[] {
+  const result = [...orderBy];
+  const orderedFields = new Set(orderBy.map((order) => order.field));
+  const lastDirection: OrderDirection = orderBy[orderBy.length - 1]?.direction ?? "asc";
+
+  // Mirrors Firestore: inequality fields (sorted) follow the explicit orderBy, then the document name.
+  const inequalityFields = Array.from(
+    new Set(
+      flattenFilters(filters)
+        .filter((filter) => INEQUALITY_OPERATORS.has(filter.operator))
+        .map((filter) => filter.field),
+    ),
+  ).sort();
+
+  for (const field of inequalityFields) {
+    if (!orderedFields.has(field)) {
+      result.push({ field, direction: lastDirection });
+      orderedFields.add(field);
     }
+  }
 
-    return "object";
+  if (!orderedFields.has(DOCUMENT_ID_FIELD)) {
+    result.push({ field: DOCUMENT_ID_FIELD, direction: lastDirection });
   }
 
-  return typeof value;
+  return result;
 }
 
-function sanitizeFirestoreValue(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
-  if (value === null || value === undefined) {
-    return null;
-  }
+function encodePageToken(doc: FirebaseFirestore.QueryDocumentSnapshot, orderBy: OrderByArg[]): string {
+  const token: PageToken = {
+    fields: orderBy.map((order) => order.field),
+    values: orderBy.map((order) =>
+      sanitizeFirestoreValue(order.field === DOCUMENT_ID_FIELD ? doc.ref : doc.get(order.field)),
+    ),
+  };
 
-  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") {
-    return value;
-  }
+  return Buffer.from(JSON.stringify(token), "utf8").toString("base64url");
+}
 
-  if (typeof value === "bigint") {
-    return value.toString();
+function decodePageToken(value: unknown): PageToken {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error("pageToken must be a non-empty string when provided.");
   }
 
-  if (value instanceof Date) {
-    return value.toISOString();
+  let token: unknown;
+  try {
+    token = JSON.parse(Buffer.from(value.trim(), "base64url").toString("utf8"));
+  } catch {
+    throw new Error("pageToken is malformed; pass the nextPageToken value exactly as returned.");
   }
 
-  if (Array.isArray(value)) {
-    return value.map((item) => sanitizeFirestoreValue(item, seen));
+  if (
+    !isPlainObject(token) ||
+    !Array.isArray(token["fields"]) ||
+    !Array.isArray(token["values"]) ||
+    token["fields"].length !== token["values"].length
+  ) {
+    throw new Error("pageToken is malformed; pass the nextPageToken value exactly as returned.");
   }
 
-  if (typeof Buffer !== "undefined" && Buffer.isBuffer(value)) {
-    return value.toString("base64");
+  return { fields: token["fields"] as string[], values: token["values"] as unknown[] };
+}
+
+function getFieldValue(data: Record<string, unknown>, fieldPath: string): unknown {
+  let current: unknown = data;
+  for (const segment of fieldPath.split(".")) {
+    if (!isPlainObject(current) || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
   }
 
-  if (value && typeof value === "object") {
-    const ctorName = value.constructor?.name;
+  return current;
+}
 
-    if (ctorName === "Timestamp" && typeof (value as { toDate?: () => Date }).toDate === "function") {
-      try {
-        return (value as { toDate: () => Date }).toDate().toISOString();
-      } catch {
-        const seconds = (value as { seconds?: number }).seconds;
-        const nanoseconds = (value as { nanoseconds?: number }).nanoseconds;
-        return { seconds, nanoseconds };
-      }
-    }
+function pickFieldPaths(data: Record<string, unknown>, fieldPaths: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
 
-    if (ctorName === "GeoPoint") {
-      const point = value as { latitude: number; longitude: number };
-      return { latitude: point.latitude, longitude: point.longitude };
+  for (const fieldPath of fieldPaths) {
+    const value = getFieldValue(data, fieldPath);
+    if (value === undefined) {
+      continue;
     }
 
-    if (ctorName === "DocumentReference") {
-      const ref = value as { path?: string; id?: string };
-      return {
-        path: ref.path,
-        id: ref.id,
-      };
+    const segments = fieldPath.split(".");
+    let target = result;
+    for (const segment of segments.slice(0, -1)) {
+      if (!isPlainObject(target[segment])) {
+        target[segment] = {};
+      }
+      target = target[segment] as Record<string, unknown>;
     }
+    target[segments[segments.length - 1]!] = value;
+  }
+
+  return result;
+}
 
-    if (typeof (value as { toJSON?: () => unknown }).toJSON === "function") {
-      try {
-        const jsonValue = (value as { toJSON: () => unknown }).toJSON();
-        return sanitizeFirestoreValue(jsonValue, seen);
-      } catch {
-        // fall through to object traversal
+function omitFieldPaths(data: Record<string, unknown>, fieldPaths: string[]): Record<string, unknown> {
+  if (fieldPaths.length === 0) {
+    return data;
+  }
+
+  const result: Record<string, unknown> = { ...data };
+
+  for (const fieldPath of fieldPaths) {
+    const segments = fieldPath.split(".");
+    let target: Record<string, unknown> = result;
+    for (const segment of segments.slice(0, -1)) {
+      // Timestamps, GeoPoints and typed values are leaves: `createdAt.seconds` matches nothing.
+      if (!isMapValue(target[segment])) {
+        target = {};
+        break;
       }
+      // Copy on the way down so the snapshot data is never mutated.
+      target[segment] = { ...(target[segment] as Record<string, unknown>) };
+      target = target[segment] as Record<string, unknown>;
     }
+    delete target[segments[segments.length - 1]!];
+  }
 
-    if (seen.has(value as object)) {
-      return "[Circular]";
-    }
+  return result;
+}
 
-    seen.add(value as object);
+/** True for a Firestore map, as opposed to a class instance such as Timestamp or a `{"$timestamp": ...}` tag. */
+function isMapValue(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value) || isTypedValue(value)) {
+    return false;
+  }
 
-    const result: Record<string, unknown> = {};
-    for (const [key, nestedValue] of Object.entries(value as Record<string, unknown>)) {
-      result[key] = sanitizeFirestoreValue(nestedValue, seen);
-    }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
 
-    return result;
+function buildAggregateSpec(aggregations: AggregationSpec[]): Record<string, FirebaseFirestore.AggregateFieldType> {
+  const spec: Record<string, FirebaseFirestore.AggregateFieldType> = {};
+
+  for (const aggregation of aggregations) {
+    switch (aggregation.operation) {
+      case "count":
+        spec[aggregation.name] = AggregateField.count();
+        break;
+      case "sum":
+        spec[aggregation.name] = AggregateField.sum(aggregation.field!);
+        break;
+      case "avg":
+        spec[aggregation.name] = AggregateField.average(aggregation.field!);
+        break;
+    }
   }
 
-  return String(value);
+  return spec;
 }
 
-function isPlainObject(value: unknown): value is Record<string, any> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
+function describeAggregation(aggregation: AggregationSpec): string {
+  switch (aggregation.operation) {
+    case "count":
+      return "count of documents";
+    case "sum":
+      return `sum of '${aggregation.field}'`;
+    case "avg":
+      return `average of '${aggregation.field}'`;
+  }
 }
 
-type NumericStats = {
-  sum: number;
-  average: number;
-  validCount: number;
-  invalidCount: number;
-};
+function groupKeyValue(value: unknown, bucket: TimeBucket | undefined): unknown {
+  if (!bucket) {
+    return value === undefined ? null : sanitizeFirestoreValue(value);
+  }
+
+  const date =
+    value instanceof Date
+      ? value
+      : typeof (value as { toDate?: () => Date } | null)?.toDate === "function"
+        ? (value as { toDate: () => Date }).toDate()
+        : undefined;
+
+  if (!date) {
+    return null;
+  }
 
-function collectNumericStats(
-  docs: Array<{ data: Record<string, unknown> }>,
-  field: string,
-): NumericStats {
-  let sum = 0;
-  let validCount = 0;
-  let invalidCount = 0;
+  const start = new Date(date.getTime());
+  switch (bucket) {
+    case "hour":
+      start.setUTCMinutes(0, 0, 0);
+      break;
+    case "day":
+      start.setUTCHours(0, 0, 0, 0);
+      break;
+    case "week":
+      start.setUTCHours(0, 0, 0, 0);
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      break;
+    case "month":
+      start.setUTCHours(0, 0, 0, 0);
+      start.setUTCDate(1);
+      break;
+  }
 
-  for (const doc of docs) {
-    const value = doc.data[field];
+  return start.toISOString();
+}
 
-    if (typeof value === "number" && Number.isFinite(value)) {
-      sum += value;
-      validCount += 1;
-    } else if (value !== undefined) {
-      invalidCount += 1;
+function compareGroupKeys(a: unknown[], b: unknown[]): number {
+  for (let index = 0; index < a.length; index += 1) {
+    const left = a[index];
+    const right = b[index];
+    if (left === right) {
+      continue;
     }
-  }
 
-  const average = validCount > 0 ? sum / validCount : 0;
+    // Missing values sort last.
+    if (left === null) {
+      return 1;
+    }
+    if (right === null) {
+      return -1;
+    }
 
-  return {
-    sum,
-    average,
-    validCount,
-    invalidCount,
-  };
+    if (typeof left === "number" && typeof right === "number") {
+      return left - right;
+    }
+
+    const comparison = JSON.stringify(left).localeCompare(JSON.stringify(right));
+    if (comparison !== 0) {
+      return comparison;
+    }
+  }
+
+  return 0;
 }
 
-function formatNumericLine(label: string, value: number, validCount: number, invalidCount: number): string {
-  const base = `${label}: ${value}`;
+function computeGroupMetric(accumulator: GroupAccumulator, metric: GroupMetricArg): number | null {
+  if (metric.operation === "count") {
+    return accumulator.count;
+  }
 
-  if (invalidCount === 0) {
-    return base;
+  const field = metric.field!;
+  const total = accumulator.sums.get(field);
+
+  switch (metric.operation) {
+    case "sum":
+      return total?.sum ?? 0;
+    case "avg":
+      return total && total.count > 0 ? total.sum / total.count : null;
+    case "min":
+      return accumulator.mins.get(field) ?? null;
+    case "max":
+      return accumulator.maxs.get(field) ?? null;
   }
+}
 
-  return `${base} (ignored ${invalidCount} document${invalidCount === 1 ? "" : "s"} with non-numeric values)`;
+function toCollectionPattern(collectionPath: string): string {
+  return collectionPath
+    .split("/")
+    .map((segment, index) => (index % 2 === 1 ? "{id}" : segment))
+    .join("/");
 }
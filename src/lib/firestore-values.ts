@@ -0,0 +1,312 @@
+import { FieldValue, GeoPoint, Timestamp } from "@google-cloud/firestore";
+import type { Firestore } from "@google-cloud/firestore";
+
+/**
+ * Typed JSON encoding for Firestore values that have no JSON equivalent.
+ * sanitizeFirestoreValue prints these tags and decodeFirestoreValue reads them back,
+ * so any value shown in tool output can be pasted into a filter or cursor as-is.
+ */
+const TYPED_VALUE_KEYS = ["$timestamp", "$ref", "$geopoint", "$bytes"] as const;
+
+type TypedValueKey = typeof TYPED_VALUE_KEYS[number];
+
+const TYPED_VALUE_KEY_SET = new Set<string>(TYPED_VALUE_KEYS);
+
+/** Write-only sentinels mapped onto FieldValue; only accepted when decoding write data. */
+const SENTINEL_KEYS = ["$delete", "$increment", "$arrayUnion", "$arrayRemove", "$serverTimestamp"] as const;
+
+type SentinelKey = typeof SENTINEL_KEYS[number];
+
+const SENTINEL_KEY_SET = new Set<string>(SENTINEL_KEYS);
+
+type DecodeOptions = {
+  sentinels?: boolean;
+};
+
+/** outputSchema fragment for a Timestamp printed by sanitizeFirestoreValue. */
+export const TIMESTAMP_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    $timestamp: { type: "string", description: "ISO 8601 with up to nanosecond precision." },
+  },
+  required: ["$timestamp"],
+};
+
+const ISO_TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/;
+
+export function describeValueType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+
+  if (value === undefined) {
+    return "undefined";
+  }
+
+  if (Array.isArray(value)) {
+    return "array";
+  }
+
+  if (value instanceof Date) {
+    return "timestamp";
+  }
+
+  if (typeof Buffer !== "undefined" && Buffer.isBuffer(value)) {
+    return "bytes";
+  }
+
+  if (value && typeof value === "object") {
+    const ctorName = value.constructor?.name;
+
+    if (ctorName === "Timestamp" && typeof (value as { toDate?: () => Date }).toDate === "function") {
+      return "timestamp";
+    }
+
+    if (ctorName === "GeoPoint") {
+      return "geopoint";
+    }
+
+    if (ctorName === "DocumentReference") {
+      return "reference";
+    }
+
+    return "object";
+  }
+
+  return typeof value;
+}
+
+export function sanitizeFirestoreValue(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  if (value instanceof Date) {
+    return { $timestamp: value.toISOString() };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeFirestoreValue(item, seen));
+  }
+
+  if (typeof Buffer !== "undefined" && Buffer.isBuffer(value)) {
+    return { $bytes: value.toString("base64") };
+  }
+
+  if (value && typeof value === "object") {
+    const ctorName = value.constructor?.name;
+
+    if (ctorName === "Timestamp" && typeof (value as { toDate?: () => Date }).toDate === "function") {
+      try {
+        return { $timestamp: formatTimestamp(value as Timestamp) };
+      } catch {
+        const seconds = (value as { seconds?: number }).seconds;
+        const nanoseconds = (value as { nanoseconds?: number }).nanoseconds;
+        return { seconds, nanoseconds };
+      }
+    }
+
+    if (ctorName === "GeoPoint") {
+      const point = value as { latitude: number; longitude: number };
+      return { $geopoint: [point.latitude, point.longitude] };
+    }
+
+    if (ctorName === "DocumentReference") {
+      const ref = value as { path: string };
+      return { $ref: ref.path };
+    }
+
+    if (typeof (value as { toJSON?: () => unknown }).toJSON === "function") {
+      try {
+        const jsonValue = (value as { toJSON: () => unknown }).toJSON();
+        return sanitizeFirestoreValue(jsonValue, seen);
+      } catch {
+        // fall through to object traversal
+      }
+    }
+
+    if (seen.has(value as object)) {
+      return "[Circular]";
+    }
+
+    seen.add(value as object);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, nestedValue] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = sanitizeFirestoreValue(nestedValue, seen);
+    }
+
+    return result;
+  }
+
+  return String(value);
+}
+
+/**
+ * Reverse of sanitizeFirestoreValue: turns `{"$timestamp": ...}`, `{"$ref": ...}`,
+ * `{"$geopoint": [lat, lng]}` and `{"$bytes": ...}` back into Firestore types.
+ * Plain JSON passes through unchanged. `label` names the argument in error messages.
+ * With `sentinels` enabled, `{"$delete": true}`, `{"$increment": n}`, `{"$arrayUnion": [...]}`,
+ * `{"$arrayRemove": [...]}` and `{"$serverTimestamp": true}` become FieldValue sentinels.
+ */
+export function decodeFirestoreValue(
+  value: unknown,
+  firestore: Firestore,
+  label: string,
+  options: DecodeOptions = {},
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => decodeFirestoreValue(item, firestore, `${label}[${index}]`, options));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+
+  const sentinelKey = keys.find((key) => SENTINEL_KEY_SET.has(key)) as SentinelKey | undefined;
+  if (sentinelKey) {
+    if (!options.sentinels) {
+      throw new Error(`${label} uses ${sentinelKey}, which is only allowed in write data.`);
+    }
+    if (keys.length !== 1) {
+      throw new Error(`${label} must contain only the ${sentinelKey} key.`);
+    }
+    return decodeSentinel(sentinelKey, value[sentinelKey], firestore, `${label}.${sentinelKey}`);
+  }
+
+  const typedKey = keys.find((key) => TYPED_VALUE_KEY_SET.has(key)) as TypedValueKey | undefined;
+
+  if (!typedKey) {
+    const result: Record<string, unknown> = {};
+    for (const [key, nestedValue] of Object.entries(value)) {
+      result[key] = decodeFirestoreValue(nestedValue, firestore, `${label}.${key}`, options);
+    }
+    return result;
+  }
+
+  if (keys.length !== 1) {
+    throw new Error(`${label} must contain only the ${typedKey} key.`);
+  }
+
+  const payload = value[typedKey];
+
+  switch (typedKey) {
+    case "$timestamp": {
+      const timestamp = typeof payload === "string" ? parseTimestamp(payload) : undefined;
+      if (!timestamp) {
+        throw new Error(`${label}.$timestamp must be an ISO 8601 date-time string (e.g. 2026-01-01T00:00:00Z).`);
+      }
+      return timestamp;
+    }
+    case "$ref": {
+      if (typeof payload !== "string" || payload.trim() === "") {
+        throw new Error(`${label}.$ref must be a document path string (e.g. users/abc).`);
+      }
+      const path = payload.trim().replace(/^\/+|\/+$/g, "");
+      if (path.split("/").length % 2 !== 0) {
+        throw new Error(`${label}.$ref must be a document path with an even number of segments, got '${payload}'.`);
+      }
+      return firestore.doc(path);
+    }
+    case "$geopoint": {
+      if (
+        !Array.isArray(payload) ||
+        payload.length !== 2 ||
+        !payload.every((coordinate) => typeof coordinate === "number" && Number.isFinite(coordinate))
+      ) {
+        throw new Error(`${label}.$geopoint must be a [latitude, longitude] pair of numbers.`);
+      }
+      try {
+        return new GeoPoint(payload[0], payload[1]);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`${label}.$geopoint is out of range: ${reason}`);
+      }
+    }
+    case "$bytes": {
+      if (typeof payload !== "string" || !/^[A-Za-z0-9+/]*={0,2}$/.test(payload)) {
+        throw new Error(`${label}.$bytes must be a base64 string.`);
+      }
+      return Buffer.from(payload, "base64");
+    }
+  }
+}
+
+function decodeSentinel(key: SentinelKey, payload: unknown, firestore: Firestore, label: string): FieldValue {
+  switch (key) {
+    case "$delete":
+      if (payload !== true) {
+        throw new Error(`${label} must be true.`);
+      }
+      return FieldValue.delete();
+    case "$serverTimestamp":
+      if (payload !== true) {
+        throw new Error(`${label} must be true.`);
+      }
+      return FieldValue.serverTimestamp();
+    case "$increment":
+      if (typeof payload !== "number" || !Number.isFinite(payload)) {
+        throw new Error(`${label} must be a finite number.`);
+      }
+      return FieldValue.increment(payload);
+    case "$arrayUnion":
+    case "$arrayRemove": {
+      if (!Array.isArray(payload) || payload.length === 0) {
+        throw new Error(`${label} must be a non-empty array of elements.`);
+      }
+      const elements = payload.map((item, index) => decodeFirestoreValue(item, firestore, `${label}[${index}]`));
+      return key === "$arrayUnion" ? FieldValue.arrayUnion(...elements) : FieldValue.arrayRemove(...elements);
+    }
+  }
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** True for a `{"$timestamp": ...}`-style tag as printed by sanitizeFirestoreValue. */
+export function isTypedValue(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+
+  const keys = Object.keys(value);
+  return keys.length === 1 && TYPED_VALUE_KEY_SET.has(keys[0]!);
+}
+
+/** ISO 8601 with nanosecond precision when the timestamp has sub-millisecond digits. */
+function formatTimestamp(timestamp: Timestamp): string {
+  const iso = timestamp.toDate().toISOString();
+  if (timestamp.nanoseconds % 1_000_000 === 0) {
+    return iso;
+  }
+
+  const fraction = String(timestamp.nanoseconds).padStart(9, "0");
+  return `${iso.slice(0, 19)}.${fraction}Z`;
+}
+
+function parseTimestamp(value: string): Timestamp | undefined {
+  const match = ISO_TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, dateTime, fraction = "", zone] = match;
+  const millis = Date.parse(`${dateTime}${zone}`);
+  if (Number.isNaN(millis)) {
+    return undefined;
+  }
+
+  const nanoseconds = Number(fraction.padEnd(9, "0"));
+  return new Timestamp(Math.floor(millis / 1000), nanoseconds);
+}
@@ -0,0 +1,1232 @@
+import { Firestore, Timestamp } from "@google-cloud/firestore";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { AccessPolicy } from "./access-policy.js";
+import {
+  FILTER_SCHEMA_DEFS,
+  QUERY_TARGET_PROPERTIES,
+  buildFilteredQuery,
+  flattenFilters,
+  parseFilters,
+  parseQueryTarget,
+} from "./firestore-query.js";
+import type { FilterNode, QueryTarget } from "./firestore-query.js";
+import {
+  decodeFirestoreValue,
+  isPlainObject,
+  sanitizeFirestoreValue,
+  TIMESTAMP_OUTPUT_SCHEMA,
+} from "./firestore-values.js";
+import type { ReadTracker } from "./read-quota.js";
+import {
+  errorResult,
+  parseCollectionPath,
+  parseDocumentPath,
+  parseFieldPathList,
+  parsePositiveInteger,
+  structuredErrorResult,
+  successResult,
+} from "./tool-helpers.js";
+import type { ToolSession } from "./tool-session.js";
+
+const WRITE_DATA_DESCRIPTION =
+  'Field values as JSON. Typed values ({"$timestamp": ...}, {"$ref": ...}, {"$geopoint": [lat, lng]}, {"$bytes": ...}) and the sentinels {"$serverTimestamp": true}, {"$increment": n}, {"$arrayUnion": [...]}, {"$arrayRemove": [...]} are accepted.';
+
+const WRITE_OPERATION_TYPES = ["create", "set", "update", "delete"] as const;
+
+type WriteOperationType = typeof WRITE_OPERATION_TYPES[number];
+
+const WRITE_OPERATION_TYPE_SET = new Set<WriteOperationType>(WRITE_OPERATION_TYPES);
+
+const ASSERTION_OPERATORS = ["==", "!=", "<", "<=", ">", ">=", "in", "not-in", "array-contains"] as const;
+
+type AssertionOperator = typeof ASSERTION_OPERATORS[number];
+
+const ASSERTION_OPERATOR_SET = new Set<AssertionOperator>(ASSERTION_OPERATORS);
+
+// Firestore commits at most 500 writes per batch or transaction.
+const MAX_WRITE_OPERATIONS = 500;
+
+const MAX_TRANSACTION_READS = 100;
+
+const DEFAULT_BULK_LIMIT = 100;
+const BULK_PREVIEW_SAMPLE_SIZE = 5;
+
+// gRPC status codes Firestore uses for write conflicts.
+const GRPC_STATUS_NAMES: Record<number, string> = {
+  5: "NOT_FOUND",
+  6: "ALREADY_EXISTS",
+  9: "FAILED_PRECONDITION",
+  10: "ABORTED",
+};
+
+const WRITE_OPERATION_SCHEMA = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: [...WRITE_OPERATION_TYPES] },
+    path: { type: "string", description: "Full document path." },
+    data: { type: "object", description: "Field values for create, set and update (same encoding as the single-document tools)." },
+    merge: { type: "boolean", description: "set only: merge into the existing document." },
+    mergeFields: { type: "array", items: { type: "string" }, description: "set only: field paths to write." },
+    precondition: {
+      type: "object",
+      description:
+        'update and delete only: {"lastUpdateTime": "<ISO timestamp from updateTime>"} or {"exists": true|false}. create always requires the document to be absent.',
+      properties: {
+        exists: { type: "boolean" },
+        lastUpdateTime: {},
+      },
+      additionalProperties: false,
+    },
+  },
+  required: ["type", "path"],
+  additionalProperties: false,
+};
+
+const WRITE_RESULT_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    path: { type: "string" },
+    writeTime: TIMESTAMP_OUTPUT_SCHEMA,
+  },
+  required: ["path"],
+};
+
+/** update_where and delete_where answer a dry run with a preview and a commit with what changed. */
+const BULK_WRITE_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    dryRun: { type: "boolean" },
+    matching: {
+      type: "number",
+      description:
+        "Dry run: documents matching the filters. For collection groups checked document by document, the allowed matches among the first limit documents.",
+    },
+    willChange: { type: "number", description: "Dry run: documents the commit would change (at most limit)." },
+    confirmationToken: { type: "string" },
+    expiresAt: { type: "string" },
+    sample: { type: "array", items: { type: "object" } },
+    commitTime: TIMESTAMP_OUTPUT_SCHEMA,
+    changed: { type: "array", items: { type: "string" }, description: "Commit: paths of the changed documents." },
+    skipped: { type: "number", description: "Commit: previewed documents that no longer matched." },
+  },
+  required: ["dryRun"],
+};
+
+export const FIRESTORE_WRITE_TOOL_DEFINITIONS: Tool[] = [
+  {
+    name: "create_document",
+    description: "Create a new document. Fails if a document with the same id already exists.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collectionPath: {
+          type: "string",
+          description: "Path to the collection that will hold the document (required).",
+        },
+        documentId: {
+          type: "string",
+          description: "Optional document id. An id is generated when omitted.",
+        },
+        data: {
+          type: "object",
+          description: WRITE_DATA_DESCRIPTION,
+        },
+      },
+      required: ["collectionPath", "data"],
+      additionalProperties: false,
+    },
+    outputSchema: WRITE_RESULT_OUTPUT_SCHEMA,
+  },
+  {
+    name: "set_document",
+    description: "Create or overwrite a document. Use merge or mergeFields to only touch the given fields.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Full path of the document to write (required).",
+        },
+        data: {
+          type: "object",
+          description: `${WRITE_DATA_DESCRIPTION} With merge, {"$delete": true} removes a field.`,
+        },
+        merge: {
+          type: "boolean",
+          description: "Merge data into the existing document instead of replacing it (default: false).",
+          default: false,
+        },
+        mergeFields: {
+          type: "array",
+          description: "Only write these field paths from data; other fields are left untouched.",
+          items: { type: "string" },
+        },
+      },
+      required: ["path", "data"],
+      additionalProperties: false,
+    },
+    outputSchema: WRITE_RESULT_OUTPUT_SCHEMA,
+  },
+  {
+    name: "update_document",
+    description:
+      "Update fields of an existing document. Keys are field paths (dotted for nested fields). Fails if the document does not exist.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Full path of the document to update (required).",
+        },
+        data: {
+          type: "object",
+          description: `${WRITE_DATA_DESCRIPTION} {"$delete": true} removes a field.`,
+        },
+      },
+      required: ["path", "data"],
+      additionalProperties: false,
+    },
+    outputSchema: WRITE_RESULT_OUTPUT_SCHEMA,
+  },
+  {
+    name: "delete_document",
+    description: "Delete a document. Subcollections are not deleted.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Full path of the document to delete (required).",
+        },
+        mustExist: {
+          type: "boolean",
+          description: "Fail instead of succeeding silently when the document does not exist (default: false).",
+          default: false,
+        },
+      },
+      required: ["path"],
+      additionalProperties: false,
+    },
+    outputSchema: WRITE_RESULT_OUTPUT_SCHEMA,
+  },
+  {
+    name: "apply_batch",
+    description: `Apply up to ${MAX_WRITE_OPERATIONS} write operations atomically: either all succeed or none are applied.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        operations: {
+          type: "array",
+          description: "Write operations applied in order.",
+          items: WRITE_OPERATION_SCHEMA,
+          minItems: 1,
+        },
+      },
+      required: ["operations"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        commitTime: TIMESTAMP_OUTPUT_SCHEMA,
+        operations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              index: { type: "number" },
+              type: { type: "string", enum: [...WRITE_OPERATION_TYPES] },
+              path: { type: "string" },
+              status: { type: "string", enum: ["applied"] },
+              writeTime: TIMESTAMP_OUTPUT_SCHEMA,
+            },
+            required: ["index", "type", "path", "status"],
+          },
+        },
+      },
+      required: ["operations"],
+    },
+  },
+  {
+    name: "update_where",
+    description:
+      "Update every document matching the filters. Runs as a dry run by default and returns the matched count, a before/after sample and a confirmationToken; call again with dryRun: false and that token to commit.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...QUERY_TARGET_PROPERTIES,
+        data: {
+          type: "object",
+          description: `Fields to update on each matched document (same encoding as update_document, including sentinels).`,
+        },
+        limit: {
+          type: "number",
+          description: `Maximum number of documents to change in one call (default: ${DEFAULT_BULK_LIMIT}, max: ${MAX_WRITE_OPERATIONS}).`,
+          default: DEFAULT_BULK_LIMIT,
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview only (default: true). Set to false together with confirmationToken to commit.",
+          default: true,
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token returned by the dry run of this exact request. Single-use and valid for 5 minutes.",
+        },
+      },
+      required: ["data"],
+      additionalProperties: false,
+      $defs: FILTER_SCHEMA_DEFS,
+    },
+    outputSchema: BULK_WRITE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "delete_where",
+    description:
+      "Delete every document matching the filters. Runs as a dry run by default and returns the matched count, a sample and a confirmationToken; call again with dryRun: false and that token to commit.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...QUERY_TARGET_PROPERTIES,
+        limit: {
+          type: "number",
+          description: `Maximum number of documents to delete in one call (default: ${DEFAULT_BULK_LIMIT}, max: ${MAX_WRITE_OPERATIONS}).`,
+          default: DEFAULT_BULK_LIMIT,
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview only (default: true). Set to false together with confirmationToken to commit.",
+          default: true,
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token returned by the dry run of this exact request. Single-use and valid for 5 minutes.",
+        },
+      },
+      additionalProperties: false,
+      $defs: FILTER_SCHEMA_DEFS,
+    },
+    outputSchema: BULK_WRITE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "run_transaction",
+    description:
+      "Read documents in a transaction, check assertions on their current values, and commit the write operations only if every assertion holds.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reads: {
+          type: "array",
+          description: `Document paths to read and return (max ${MAX_TRANSACTION_READS}). Paths named in assertions are read automatically.`,
+          items: { type: "string" },
+        },
+        assertions: {
+          type: "array",
+          description:
+            'Conditions checked against the values read in the transaction, e.g. {"path": "accounts/a", "field": "balance", "operator": ">=", "value": 100} or {"path": "locks/job", "exists": false}.',
+          items: {
+            type: "object",
+            properties: {
+              path: { type: "string" },
+              exists: { type: "boolean" },
+              field: { type: "string" },
+              operator: { type: "string", enum: [...ASSERTION_OPERATORS] },
+              value: {},
+            },
+            required: ["path"],
+            additionalProperties: false,
+          },
+        },
+        operations: {
+          type: "array",
+          description: "Write operations committed when all assertions pass.",
+          items: WRITE_OPERATION_SCHEMA,
+          minItems: 1,
+        },
+      },
+      required: ["operations"],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        reads: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              path: { type: "string" },
+              exists: { type: "boolean" },
+              updateTime: TIMESTAMP_OUTPUT_SCHEMA,
+              data: { type: ["object", "null"] },
+            },
+            required: ["path", "exists", "data"],
+          },
+        },
+        operations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              index: { type: "number" },
+              type: { type: "string", enum: [...WRITE_OPERATION_TYPES] },
+              path: { type: "string" },
+              status: { type: "string", enum: ["committed"] },
+            },
+            required: ["index", "type", "path", "status"],
+          },
+        },
+      },
+      required: ["reads", "operations"],
+    },
+  },
+];
+
+export const FIRESTORE_WRITE_TOOL_NAMES = new Set(FIRESTORE_WRITE_TOOL_DEFINITIONS.map((tool) => tool.name));
+
+/** Tools that commit only with a confirmation token from an earlier dry run. */
+export const CONFIRMED_WRITE_TOOL_NAMES = new Set(["update_where", "delete_where"]);
+
+type WriteOperation = {
+  type: WriteOperationType;
+  path: string;
+  data?: Record<string, unknown>;
+  merge?: boolean;
+  mergeFields?: string[];
+  precondition?: FirebaseFirestore.Precondition;
+};
+
+type Assertion = {
+  path: string;
+  exists?: boolean;
+  field?: string;
+  operator?: AssertionOperator;
+  value?: unknown;
+};
+
+type TransactionArgs = {
+  reads: string[];
+  assertions: Assertion[];
+  operations: WriteOperation[];
+};
+
+type BulkWriteArgs = QueryTarget & {
+  kind: "update" | "delete";
+  filters: FilterNode[];
+  rawData?: Record<string, unknown>;
+  data?: Record<string, unknown>;
+  limit: number;
+  dryRun: boolean;
+  confirmationToken?: string;
+  fingerprint: string;
+};
+
+type FailedAssertion = {
+  index: number;
+  path: string;
+  expected: string;
+  actual: unknown;
+};
+
+/** Thrown inside the transaction callback so Firestore rolls back without committing. */
+class AssertionFailedError extends Error {
+  constructor(readonly failures: FailedAssertion[]) {
+    super(`${failures.length} assertion(s) failed; the transaction was not committed.`);
+    this.name = "AssertionFailedError";
+  }
+}
+
+export class FirestoreWriteToolExecutor {
+  constructor(
+    private readonly firestore: Firestore,
+    private readonly policy: AccessPolicy,
+  ) {}
+
+  /** `owner` identifies the caller within `session`, which stateless servers share between callers. */
+  async execute(
+    name: string,
+    rawArgs: unknown,
+    session: ToolSession,
+    owner: string,
+    reads: ReadTracker,
+  ): Promise<CallToolResult> {
+    switch (name) {
+      case "create_document":
+        return await this.createDocument(rawArgs);
+      case "set_document":
+        return await this.setDocument(rawArgs);
+      case "update_document":
+        return await this.updateDocument(rawArgs);
+      case "delete_document":
+        return await this.deleteDocument(rawArgs);
+      case "apply_batch":
+        return await this.applyBatch(rawArgs);
+      case "run_transaction":
+        return await this.runTransaction(rawArgs, reads);
+      case "update_where":
+        return await this.bulkWrite(this.parseBulkWriteArgs(rawArgs, "update"), session, owner, reads);
+      case "delete_where":
+        return await this.bulkWrite(this.parseBulkWriteArgs(rawArgs, "delete"), session, owner, reads);
+      default:
+        return errorResult(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async createDocument(rawArgs: unknown): Promise<CallToolResult> {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("create_document expects an object with collectionPath and data.");
+    }
+
+    const collectionPath = parseCollectionPath(rawArgs["collectionPath"], "collectionPath");
+    this.policy.assertCollection(collectionPath);
+    const documentId = rawArgs["documentId"];
+    if (documentId !== undefined && (typeof documentId !== "string" || !/^[^/]+$/.test(documentId.trim()))) {
+      throw new Error("documentId must be a non-empty string without '/'.");
+    }
+
+    const data = this.parseWriteData(rawArgs["data"]);
+    const collection = this.firestore.collection(collectionPath);
+    const ref = typeof documentId === "string" ? collection.doc(documentId.trim()) : collection.doc();
+    const result = await ref.create(data);
+
+    return writeResult(`Created document '${ref.path}'.`, ref.path, result);
+  }
+
+  private async setDocument(rawArgs: unknown): Promise<CallToolResult> {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("set_document expects an object with path and data.");
+    }
+
+    const path = parseDocumentPath(rawArgs["path"], "path");
+    this.policy.assertDocument(path);
+    const merge = rawArgs["merge"];
+    if (merge !== undefined && typeof merge !== "boolean") {
+      throw new Error("merge must be a boolean when provided.");
+    }
+
+    const mergeFields = parseFieldPathList(rawArgs["mergeFields"], "mergeFields");
+    if (merge && mergeFields) {
+      throw new Error("Provide either merge or mergeFields, not both.");
+    }
+
+    const data = this.parseWriteData(rawArgs["data"]);
+    const ref = this.firestore.doc(path);
+    const result = mergeFields
+      ? await ref.set(data, { mergeFields })
+      : await ref.set(data, { merge: merge ?? false });
+
+    const mode = mergeFields ? ` (mergeFields: ${mergeFields.join(", ")})` : merge ? " (merged)" : "";
+    return writeResult(`Set document '${ref.path}'${mode}.`, ref.path, result);
+  }
+
+  private async updateDocument(rawArgs: unknown): Promise<CallToolResult> {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("update_document expects an object with path and data.");
+    }
+
+    const path = parseDocumentPath(rawArgs["path"], "path");
+    this.policy.assertDocument(path);
+    const data = this.parseWriteData(rawArgs["data"]);
+    if (Object.keys(data).length === 0) {
+      throw new Error("data must contain at least one field to update.");
+    }
+
+    const ref = this.firestore.doc(path);
+    const result = await ref.update(data);
+
+    return writeResult(`Updated ${Object.keys(data).length} field(s) of '${ref.path}'.`, ref.path, result);
+  }
+
+  private async deleteDocument(rawArgs: unknown): Promise<CallToolResult> {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("delete_document expects an object with path.");
+    }
+
+    const path = parseDocumentPath(rawArgs["path"], "path");
+    this.policy.assertDocument(path);
+    const mustExist = rawArgs["mustExist"];
+    if (mustExist !== undefined && typeof mustExist !== "boolean") {
+      throw new Error("mustExist must be a boolean when provided.");
+    }
+
+    const ref = this.firestore.doc(path);
+    const result = mustExist ? await ref.delete({ exists: true }) : await ref.delete();
+
+    return writeResult(`Deleted document '${ref.path}'.`, ref.path, result);
+  }
+
+  private async applyBatch(rawArgs: unknown): Promise<CallToolResult> {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("apply_batch expects an object with operations.");
+    }
+
+    const operations = this.parseWriteOperations(rawArgs["operations"]);
+    const batch = this.firestore.batch();
+    operations.forEach((operation) => applyWriteOperation(batch, this.firestore.doc(operation.path), operation));
+
+    let results: FirebaseFirestore.WriteResult[];
+    try {
+      results = await batch.commit();
+    } catch (error) {
+      return writeConflictResult(error, "The batch was not applied", operations);
+    }
+
+    const payload = {
+      commitTime: sanitizeFirestoreValue(results[0]?.writeTime),
+      operations: operations.map((operation, index) => ({
+        index,
+        type: operation.type,
+        path: operation.path,
+        status: "applied",
+        writeTime: sanitizeFirestoreValue(results[index]?.writeTime),
+      })),
+    };
+
+    return successResult(
+      [`Applied ${operations.length} operation(s) atomically.`, "", JSON.stringify(payload, null, 2)].join("\n"),
+      payload,
+    );
+  }
+
+  private async runTransaction(rawArgs: unknown, readTracker: ReadTracker): Promise<CallToolResult> {
+    const args = this.parseTransactionArgs(rawArgs);
+    const readPaths = Array.from(new Set([...args.reads, ...args.assertions.map((assertion) => assertion.path)]));
+    readTracker.reserve(readPaths.length);
+
+    let reads: Array<Record<string, unknown>>;
+    try {
+      reads = await this.firestore.runTransaction(async (transaction) => {
+        const snapshots =
+          readPaths.length > 0 ? await transaction.getAll(...readPaths.map((path) => this.firestore.doc(path))) : [];
+        // Retried attempts read again, so every attempt counts.
+        readTracker.record(snapshots.length);
+        const byPath = new Map(snapshots.map((snapshot) => [snapshot.ref.path, snapshot]));
+
+        const failures = args.assertions.flatMap((assertion, index) => {
+          const failure = checkAssertion(assertion, byPath.get(assertion.path)!);
+          return failure ? [{ index, ...failure }] : [];
+        });
+
+        if (failures.length > 0) {
+          throw new AssertionFailedError(failures);
+        }
+
+        args.operations.forEach((operation) =>
+          applyWriteOperation(transaction, this.firestore.doc(operation.path), operation),
+        );
+
+        return snapshots.map((snapshot) => ({
+          path: snapshot.ref.path,
+          exists: snapshot.exists,
+          updateTime: sanitizeFirestoreValue(snapshot.updateTime),
+          data: snapshot.exists ? this.policy.sanitize(snapshot.data()) : null,
+        }));
+      });
+    } catch (error) {
+      if (error instanceof AssertionFailedError) {
+        return structuredErrorResult({
+          code: "ASSERTION_FAILED",
+          message: error.message,
+          failures: error.failures.map((failure) => ({ ...failure, actual: sanitizeFirestoreValue(failure.actual) })),
+        });
+      }
+
+      return writeConflictResult(error, "The transaction was not committed", args.operations);
+    }
+
+    // The server SDK does not surface a transaction's commit time, so none is reported: a follow-up read
+    // could return another client's later write, and nothing after the commit may turn it into an error.
+    const payload = {
+      reads,
+      operations: args.operations.map((operation, index) => ({
+        index,
+        type: operation.type,
+        path: operation.path,
+        status: "committed",
+      })),
+    };
+
+    return successResult(
+      [
+        `Transaction committed: ${args.assertions.length} assertion(s) passed, ${args.operations.length} operation(s) applied.`,
+        "",
+        JSON.stringify(payload, null, 2),
+      ].join("\n"),
+      payload,
+    );
+  }
+
+  private async bulkWrite(
+    args: BulkWriteArgs,
+    session: ToolSession,
+    owner: string,
+    reads: ReadTracker,
+  ): Promise<CallToolResult> {
+    const toolName = `${args.kind}_where`;
+    const query = buildFilteredQuery(this.firestore, args, args.filters);
+
+    if (args.dryRun) {
+      // A count cannot skip documents in collections the policy blocks, so collection groups that need
+      // document checks report the allowed matches among the first `limit` documents instead.
+      const countable = !this.policy.needsDocumentCheck(args);
+      reads.reserve((countable ? 1 : 0) + args.limit);
+      const counted = countable ? (await query.count().get()).data().count : undefined;
+      const snapshot = await query.limit(args.limit).get();
+      const docs = this.policy.allowedDocuments(args, snapshot.docs);
+      const matching = counted ?? docs.length;
+      reads.record((counted !== undefined ? Math.max(Math.ceil(counted / 1000), 1) : 0) + Math.max(snapshot.size, 1));
+      const paths = docs.map((doc) => doc.ref.path);
+
+      if (paths.length === 0) {
+        return successResult(`Dry run: no documents match; ${toolName} would change nothing.`, {
+          dryRun: true,
+          matching,
+          willChange: 0,
+          sample: [],
+        });
+      }
+
+      const sample = docs.slice(0, BULK_PREVIEW_SAMPLE_SIZE).map((doc) => {
+        const before = sanitizeFirestoreValue(doc.data()) as Record<string, unknown>;
+        return args.kind === "delete"
+          ? { path: doc.ref.path, before: this.policy.protect("", before), after: null }
+          : { path: doc.ref.path, changes: diffUpdate(before, args.rawData!, this.policy) };
+      });
+
+      const confirmation = session.issueConfirmation(owner, args.fingerprint, paths);
+      const payload = {
+        dryRun: true,
+        matching,
+        willChange: paths.length,
+        confirmationToken: confirmation.token,
+        expiresAt: confirmation.expiresAt.toISOString(),
+        sample,
+      };
+
+      const remainder =
+        matching > paths.length
+          ? ` Only the first ${paths.length} (limit) will change; run again afterwards for the rest.`
+          : counted === undefined && snapshot.size === args.limit
+            ? " More documents may match beyond limit; run again afterwards for the rest."
+            : "";
+
+      return successResult(
+        [
+          `Dry run: ${matching} document(s) match; ${paths.length} would be ${args.kind === "delete" ? "deleted" : "updated"}.${remainder}`,
+          `To commit, call ${toolName} again with the same arguments plus "dryRun": false and "confirmationToken": "${confirmation.token}".`,
+          "",
+          JSON.stringify(payload, null, 2),
+        ].join("\n"),
+        payload,
+      );
+    }
+
+    if (!args.confirmationToken) {
+      return structuredErrorResult({
+        code: "CONFIRMATION_REQUIRED",
+        message: `${toolName} with dryRun: false requires the confirmationToken from a dry run of the same request.`,
+      });
+    }
+
+    const confirmation = session.consumeConfirmation(owner, args.confirmationToken, args.fingerprint);
+    if (confirmation.status !== "valid") {
+      const reasons = {
+        unknown: "is unknown to this session or was already used",
+        expired: "has expired",
+        mismatch: "was issued for different arguments",
+      };
+      return structuredErrorResult({
+        code: `CONFIRMATION_${confirmation.status.toUpperCase()}`,
+        message: `confirmationToken ${reasons[confirmation.status]}. Run ${toolName} as a dry run again to get a new token.`,
+      });
+    }
+
+    // Only documents that were previewed and still match are touched; new matches need a new preview.
+    reads.reserve(args.limit);
+    const snapshot = await query.limit(args.limit).get();
+    reads.record(Math.max(snapshot.size, 1));
+    const previewed = new Set(confirmation.paths);
+    const targets = this.policy.allowedDocuments(args, snapshot.docs).filter((doc) => previewed.has(doc.ref.path));
+    const skipped = confirmation.paths.length - targets.length;
+
+    if (targets.length === 0) {
+      return successResult(
+        `None of the ${confirmation.paths.length} previewed document(s) still match; nothing was changed.`,
+        { dryRun: false, changed: [], skipped },
+      );
+    }
+
+    const batch = this.firestore.batch();
+    targets.forEach((doc) => (args.kind === "delete" ? batch.delete(doc.ref) : batch.update(doc.ref, args.data!)));
+
+    let results: FirebaseFirestore.WriteResult[];
+    try {
+      results = await batch.commit();
+    } catch (error) {
+      return writeConflictResult(
+        error,
+        `${toolName} was not applied`,
+        targets.map((doc) => ({ type: args.kind, path: doc.ref.path })),
+      );
+    }
+
+    const payload = {
+      dryRun: false,
+      commitTime: sanitizeFirestoreValue(results[0]?.writeTime),
+      changed: targets.map((doc) => doc.ref.path),
+      skipped,
+    };
+
+    const skippedNote = skipped > 0 ? ` ${skipped} previewed document(s) no longer matched and were skipped.` : "";
+    return successResult(
+      [
+        `${args.kind === "delete" ? "Deleted" : "Updated"} ${targets.length} document(s) atomically.${skippedNote}`,
+        "",
+        JSON.stringify(payload, null, 2),
+      ].join("\n"),
+      payload,
+    );
+  }
+
+  private parseBulkWriteArgs(rawArgs: unknown, kind: "update" | "delete"): BulkWriteArgs {
+    const toolName = `${kind}_where`;
+    if (!isPlainObject(rawArgs)) {
+      throw new Error(`${toolName} expects an object with collectionPath or collectionGroup and filters.`);
+    }
+
+    const target = parseQueryTarget(rawArgs, toolName);
+    const filters = parseFilters(this.firestore, rawArgs["filters"]);
+    this.policy.assertQueryTarget(target);
+    flattenFilters(filters).forEach((filter) => this.policy.assertFieldUsable(filter.field, "filters"));
+    const { data, limit, dryRun, confirmationToken } = rawArgs;
+
+    let decodedData: Record<string, unknown> | undefined;
+    if (kind === "update") {
+      decodedData = this.parseWriteData(data);
+      if (Object.keys(decodedData).length === 0) {
+        throw new Error("data must contain at least one field to update.");
+      }
+    }
+
+    const parsedLimit = parsePositiveInteger(limit, "limit") ?? DEFAULT_BULK_LIMIT;
+    if (parsedLimit > MAX_WRITE_OPERATIONS) {
+      throw new Error(`limit must not exceed ${MAX_WRITE_OPERATIONS}.`);
+    }
+
+    if (dryRun !== undefined && typeof dryRun !== "boolean") {
+      throw new Error("dryRun must be a boolean when provided.");
+    }
+
+    if (confirmationToken !== undefined && (typeof confirmationToken !== "string" || confirmationToken.trim() === "")) {
+      throw new Error("confirmationToken must be a non-empty string when provided.");
+    }
+
+    // The token is bound to everything that decides which documents change and how.
+    const fingerprint = stableStringify({
+      tool: toolName,
+      target,
+      filters: rawArgs["filters"] ?? [],
+      data: kind === "update" ? data : undefined,
+      limit: parsedLimit,
+    });
+
+    return {
+      ...target,
+      kind,
+      filters,
+      rawData: kind === "update" ? (data as Record<string, unknown>) : undefined,
+      data: decodedData,
+      limit: parsedLimit,
+      dryRun: dryRun ?? true,
+      confirmationToken: typeof confirmationToken === "string" ? confirmationToken.trim() : undefined,
+      fingerprint,
+    };
+  }
+
+  private parseTransactionArgs(rawArgs: unknown): TransactionArgs {
+    if (!isPlainObject(rawArgs)) {
+      throw new Error("run_transaction expects an object with reads, assertions and operations.");
+    }
+
+    const { reads, assertions } = rawArgs;
+
+    let parsedReads: string[] = [];
+    if (reads !== undefined) {
+      if (!Array.isArray(reads)) {
+        throw new Error("reads must be an array of document paths when provided.");
+      }
+      parsedReads = reads.map((path, index) => parseDocumentPath(path, `reads[${index}]`));
+      parsedReads.forEach((path) => this.policy.assertDocument(path));
+    }
+
+    let parsedAssertions: Assertion[] = [];
+    if (assertions !== undefined) {
+      if (!Array.isArray(assertions)) {
+        throw new Error("assertions must be an array when provided.");
+      }
+      parsedAssertions = assertions.map((assertion, index) => this.parseAssertion(assertion, `assertions[${index}]`));
+    }
+
+    const uniqueReads = new Set([...parsedReads, ...parsedAssertions.map((assertion) => assertion.path)]);
+    if (uniqueReads.size > MAX_TRANSACTION_READS) {
+      throw new Error(`run_transaction reads at most ${MAX_TRANSACTION_READS} documents.`);
+    }
+
+    return {
+      reads: parsedReads,
+      assertions: parsedAssertions,
+      operations: this.parseWriteOperations(rawArgs["operations"]),
+    };
+  }
+
+  private parseAssertion(value: unknown, label: string): Assertion {
+    if (!isPlainObject(value)) {
+      throw new Error(`${label} must be an object with path and either exists or field/operator/value.`);
+    }
+
+    const path = parseDocumentPath(value["path"], `${label}.path`);
+    this.policy.assertDocument(path);
+    const { exists, field, operator } = value;
+
+    if (exists !== undefined) {
+      if (typeof exists !== "boolean") {
+        throw new Error(`${label}.exists must be a boolean.`);
+      }
+      if (field !== undefined || operator !== undefined) {
+        throw new Error(`${label} must use either exists or field/operator/value, not both.`);
+      }
+      return { path, exists };
+    }
+
+    if (typeof field !== "string" || field.trim() === "") {
+      throw new Error(`${label}.field must be a non-empty string.`);
+    }
+
+    // A pass/fail answer on a protected field would reveal its value.
+    this.policy.assertFieldUsable(field.trim(), "assertions");
+
+    if (typeof operator !== "string" || !ASSERTION_OPERATOR_SET.has(operator as AssertionOperator)) {
+      throw new Error(`${label}.operator must be one of: ${ASSERTION_OPERATORS.join(", ")}.`);
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(value, "value")) {
+      throw new Error(`${label} must include a value property.`);
+    }
+
+    return {
+      path,
+      field: field.trim(),
+      operator: operator as AssertionOperator,
+      value: decodeFirestoreValue(value["value"], this.firestore, `${label}.value`),
+    };
+  }
+
+  private parseWriteOperations(value: unknown): WriteOperation[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error("operations must be a non-empty array of write operations.");
+    }
+
+    if (value.length > MAX_WRITE_OPERATIONS) {
+      throw new Error(`operations accepts at most ${MAX_WRITE_OPERATIONS} writes per call.`);
+    }
+
+    return value.map((item, index) => this.parseWriteOperation(item, `operations[${index}]`));
+  }
+
+  private parseWriteOperation(value: unknown, label: string): WriteOperation {
+    if (!isPlainObject(value)) {
+      throw new Error(`${label} must be an object with type and path.`);
+    }
+
+    const type = value["type"];
+    if (typeof type !== "string" || !WRITE_OPERATION_TYPE_SET.has(type as WriteOperationType)) {
+      throw new Error(`${label}.type must be one of: ${WRITE_OPERATION_TYPES.join(", ")}.`);
+    }
+
+    const operation: WriteOperation = {
+      type: type as WriteOperationType,
+      path: parseDocumentPath(value["path"], `${label}.path`),
+    };
+    this.policy.assertDocument(operation.path);
+
+    if (type === "delete") {
+      if (value["data"] !== undefined) {
+        throw new Error(`${label}.data is not allowed for delete.`);
+      }
+    } else {
+      if (!isPlainObject(value["data"])) {
+        throw new Error(`${label}.data must be an object of field values for ${type}.`);
+      }
+      operation.data = decodeFirestoreValue(value["data"], this.firestore, `${label}.data`, {
+        sentinels: true,
+      }) as Record<string, unknown>;
+    }
+
+    const { merge, mergeFields, precondition } = value;
+    if ((merge !== undefined || mergeFields !== undefined) && type !== "set") {
+      throw new Error(`${label}.merge and mergeFields are only allowed for set.`);
+    }
+    if (merge !== undefined && typeof merge !== "boolean") {
+      throw new Error(`${label}.merge must be a boolean when provided.`);
+    }
+    operation.merge = merge;
+    operation.mergeFields = parseFieldPathList(mergeFields, `${label}.mergeFields`);
+    if (operation.merge && operation.mergeFields) {
+      throw new Error(`${label} must use either merge or mergeFields, not both.`);
+    }
+
+    if (precondition !== undefined) {
+      if (type !== "update" && type !== "delete") {
+        throw new Error(`${label}.precondition is only allowed for update and delete.`);
+      }
+      operation.precondition = this.parsePrecondition(precondition, `${label}.precondition`, type);
+    }
+
+    return operation;
+  }
+
+  private parsePrecondition(value: unknown, label: string, type: "update" | "delete"): FirebaseFirestore.Precondition {
+    if (!isPlainObject(value) || Object.keys(value).length !== 1) {
+      throw new Error(`${label} must contain exactly one of exists or lastUpdateTime.`);
+    }
+
+    if (Object.prototype.hasOwnProperty.call(value, "exists")) {
+      const exists = value["exists"];
+      if (typeof exists !== "boolean") {
+        throw new Error(`${label}.exists must be a boolean.`);
+      }
+      if (type === "update" && !exists) {
+        throw new Error(`${label}.exists: false is not allowed for update (update always requires the document to exist).`);
+      }
+      return { exists };
+    }
+
+    if (Object.prototype.hasOwnProperty.call(value, "lastUpdateTime")) {
+      // Accept both the bare ISO string and the {"$timestamp": ...} form printed as updateTime.
+      const raw = value["lastUpdateTime"];
+      const decoded = decodeFirestoreValue(
+        typeof raw === "string" ? { $timestamp: raw } : raw,
+        this.firestore,
+        `${label}.lastUpdateTime`,
+      );
+      if (!(decoded instanceof Timestamp)) {
+        throw new Error(`${label}.lastUpdateTime must be an ISO timestamp or {"$timestamp": ...}.`);
+      }
+      return { lastUpdateTime: decoded };
+    }
+
+    throw new Error(`${label} must contain exactly one of exists or lastUpdateTime.`);
+  }
+
+  // Firestore itself rejects sentinels in places it does not accept them (e.g. $delete without merge).
+  private parseWriteData(value: unknown): Record<string, unknown> {
+    if (!isPlainObject(value)) {
+      throw new Error("data must be an object of field values.");
+    }
+
+    return decodeFirestoreValue(value, this.firestore, "data", { sentinels: true }) as Record<string, unknown>;
+  }
+}
+
+function applyWriteOperation(
+  writer: FirebaseFirestore.WriteBatch | FirebaseFirestore.Transaction,
+  ref: FirebaseFirestore.DocumentReference,
+  operation: WriteOperation,
+): void {
+  // WriteBatch and Transaction share these signatures; the cast avoids overload resolution on a union.
+  const target = writer as FirebaseFirestore.WriteBatch;
+
+  switch (operation.type) {
+    case "create":
+      target.create(ref, operation.data!);
+      break;
+    case "set":
+      if (operation.mergeFields) {
+        target.set(ref, operation.data!, { mergeFields: operation.mergeFields });
+      } else {
+        target.set(ref, operation.data!, { merge: operation.merge ?? false });
+      }
+      break;
+    case "update":
+      if (operation.precondition) {
+        target.update(ref, operation.data!, operation.precondition);
+      } else {
+        target.update(ref, operation.data!);
+      }
+      break;
+    case "delete":
+      target.delete(ref, operation.precondition);
+      break;
+  }
+}
+
+function checkAssertion(
+  assertion: Assertion,
+  snapshot: FirebaseFirestore.DocumentSnapshot,
+): Omit<FailedAssertion, "index"> | undefined {
+  if (assertion.exists !== undefined) {
+    return snapshot.exists === assertion.exists
+      ? undefined
+      : { path: assertion.path, expected: assertion.exists ? "document exists" : "document does not exist", actual: snapshot.exists };
+  }
+
+  const actual = snapshot.exists ? snapshot.get(assertion.field!) : undefined;
+  const expected = `${assertion.field} ${assertion.operator} ${JSON.stringify(sanitizeFirestoreValue(assertion.value))}`;
+
+  return evaluateAssertion(actual, assertion.operator!, assertion.value)
+    ? undefined
+    : { path: assertion.path, expected, actual };
+}
+
+function evaluateAssertion(actual: unknown, operator: AssertionOperator, expected: unknown): boolean {
+  switch (operator) {
+    case "==":
+      return valuesEqual(actual, expected);
+    case "!=":
+      return !valuesEqual(actual, expected);
+    case "in":
+      return Array.isArray(expected) && expected.some((item) => valuesEqual(actual, item));
+    case "not-in":
+      return Array.isArray(expected) && !expected.some((item) => valuesEqual(actual, item));
+    case "array-contains":
+      return Array.isArray(actual) && actual.some((item) => valuesEqual(item, expected));
+    default: {
+      const comparison = compareValues(actual, expected);
+      if (comparison === undefined) {
+        return false;
+      }
+      return operator === "<"
+        ? comparison < 0
+        : operator === "<="
+          ? comparison <= 0
+          : operator === ">"
+            ? comparison > 0
+            : comparison >= 0;
+    }
+  }
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  return JSON.stringify(sanitizeFirestoreValue(left)) === JSON.stringify(sanitizeFirestoreValue(right));
+}
+
+function compareValues(left: unknown, right: unknown): number | undefined {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+
+  if (typeof left === "string" && typeof right === "string") {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  if (left instanceof Timestamp && right instanceof Timestamp) {
+    return left.seconds !== right.seconds ? left.seconds - right.seconds : left.nanoseconds - right.nanoseconds;
+  }
+
+  return undefined;
+}
+
+/**
+ * Field-level preview of an update: applies the raw (still JSON-encoded) update data,
+ * including sentinels, to the sanitized document and reports the fields that change.
+ */
+function diffUpdate(
+  before: Record<string, unknown>,
+  data: Record<string, unknown>,
+  policy: AccessPolicy,
+): Array<{ field: string; before: unknown; after: unknown }> {
+  const changes: Array<{ field: string; before: unknown; after: unknown }> = [];
+
+  for (const [field, value] of Object.entries(data)) {
+    const previous = getFieldValue(before, field);
+    let next: unknown = value;
+
+    if (isPlainObject(value) && Object.keys(value).length === 1) {
+      const [sentinel] = Object.keys(value);
+      const payload = value[sentinel!];
+      if (sentinel === "$delete") {
+        next = undefined;
+      } else if (sentinel === "$serverTimestamp") {
+        next = "(server timestamp at commit)";
+      } else if (sentinel === "$increment") {
+        next = (typeof previous === "number" ? previous : 0) + (payload as number);
+      } else if (sentinel === "$arrayUnion") {
+        const current = Array.isArray(previous) ? previous : [];
+        const additions = (payload as unknown[]).filter(
+          (item) => !current.some((existing) => JSON.stringify(existing) === JSON.stringify(item)),
+        );
+        next = [...current, ...additions];
+      } else if (sentinel === "$arrayRemove") {
+        const removals = (payload as unknown[]).map((item) => JSON.stringify(item));
+        next = (Array.isArray(previous) ? previous : []).filter((item) => !removals.includes(JSON.stringify(item)));
+      }
+    }
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({
+        field,
+        before: policy.protect(field, previous ?? null),
+        after: next === undefined ? "(deleted)" : policy.protect(field, next),
+      });
+    }
+  }
+
+  return changes;
+}
+
+function getFieldValue(data: Record<string, unknown>, fieldPath: string): unknown {
+  let current: unknown = data;
+  for (const segment of fieldPath.split(".")) {
+    if (!isPlainObject(current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+
+  return current;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+}
+
+function writeConflictResult(
+  error: unknown,
+  summary: string,
+  operations: Array<Pick<WriteOperation, "type" | "path">>,
+): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as { code?: unknown } | null)?.code;
+
+  return structuredErrorResult({
+    code: typeof code === "number" ? (GRPC_STATUS_NAMES[code] ?? `GRPC_${code}`) : "WRITE_FAILED",
+    message: `${summary}: ${message}`,
+    operations: operations.map((operation, index) => ({
+      index,
+      type: operation.type,
+      path: operation.path,
+      status: "not-applied",
+    })),
+  });
+}
+
+function writeResult(header: string, path: string, result: FirebaseFirestore.WriteResult): CallToolResult {
+  const payload = {
+    path,
+    writeTime: sanitizeFirestoreValue(result.writeTime),
+  };
+
+  return successResult([header, "", JSON.stringify(payload, null, 2)].join("\n"), payload);
+}
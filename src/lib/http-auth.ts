@@ -0,0 +1,325 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import cors from "cors";
+import { InsufficientScopeError, InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { CallerIdentity, FirestoreAccessMode } from "./firestore-tools.js";
+import { isPlainObject } from "./firestore-values.js";
+
+// JSON-RPC reserves -32000..-32099 for server-defined errors.
+const UNAUTHORIZED_ERROR_CODE = -32001;
+const FORBIDDEN_ERROR_CODE = -32003;
+const RATE_LIMITED_ERROR_CODE = -32004;
+const INTERNAL_ERROR_CODE = -32603;
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+const KEY_MODES: FirestoreAccessMode[] = ["read-only", "read-write"];
+
+export type ApiKey = CallerIdentity & {
+  key: string;
+};
+
+export type AuthMiddlewareOptions = {
+  apiKeys: ApiKey[];
+  corsOrigins: string[] | "*";
+  /** Bearer tokens that are not API keys are validated as OAuth access tokens. */
+  oauth?: {
+    verifier: OAuthTokenVerifier;
+    resourceMetadataUrl: string;
+  };
+};
+
+/**
+ * Keys come from FIRESTORE_MCP_API_KEYS (inline JSON array) or FIRESTORE_MCP_API_KEYS_FILE
+ * (path to the same JSON). No keys means /mcp stays open, which is only meant for local use.
+ */
+export function loadApiKeys(): ApiKey[] {
+  const inline = process.env.FIRESTORE_MCP_API_KEYS?.trim();
+  const file = process.env.FIRESTORE_MCP_API_KEYS_FILE?.trim();
+
+  if (inline && file) {
+    throw new Error("Set either FIRESTORE_MCP_API_KEYS or FIRESTORE_MCP_API_KEYS_FILE, not both.");
+  }
+
+  let json: string;
+  let source: string;
+  if (inline) {
+    json = inline;
+    source = "FIRESTORE_MCP_API_KEYS";
+  } else if (file) {
+    try {
+      json = readFileSync(file, "utf8");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Unable to read FIRESTORE_MCP_API_KEYS_FILE '${file}': ${reason}`);
+    }
+    source = `FIRESTORE_MCP_API_KEYS_FILE '${file}'`;
+  } else {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`Invalid JSON in ${source}`);
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error(`${source} must be a non-empty JSON array of {label, key} objects`);
+  }
+
+  const keys = parsed.map((entry, index) => parseApiKey(entry, `${source}[${index}]`));
+  const labels = new Set<string>();
+  for (const apiKey of keys) {
+    if (labels.has(apiKey.label)) {
+      throw new Error(`${source} has duplicate label '${apiKey.label}'`);
+    }
+    labels.add(apiKey.label);
+  }
+
+  return keys;
+}
+
+/** FIRESTORE_MCP_CORS_ORIGINS is a comma-separated list of origins; unset or `*` allows any origin. */
+export function resolveCorsOrigins(value = process.env.FIRESTORE_MCP_CORS_ORIGINS): string[] | "*" {
+  const origins = (value ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter((origin) => origin !== "");
+
+  return origins.length === 0 || origins.includes("*") ? "*" : origins;
+}
+
+export function createCorsMiddleware(origins: string[] | "*"): RequestHandler {
+  return cors({
+    origin: origins,
+    methods: ["GET", "POST", "DELETE", "OPTIONS"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-API-Key", "Mcp-Session-Id", "Mcp-Protocol-Version"],
+    exposedHeaders: ["Mcp-Session-Id", "WWW-Authenticate"],
+  });
+}
+
+/**
+ * Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`, and with OAuth configured also
+ * `Authorization: Bearer <jwt>`. The caller is attached as `req.auth`, which the MCP transports
+ * hand to request handlers as `extra.authInfo`.
+ * Browser requests from origins outside the CORS list are refused before credentials are checked.
+ */
+export function createAuthMiddleware({ apiKeys, corsOrigins, oauth }: AuthMiddlewareOptions): RequestHandler {
+  if (apiKeys.length === 0 && !oauth) {
+    console.warn("No API keys or OAuth issuer configured; /mcp accepts unauthenticated requests.");
+  }
+  if (apiKeys.length > 0) {
+    console.log(`API key authentication enabled for ${apiKeys.length} key(s): ${apiKeys.map((key) => key.label).join(", ")}`);
+  }
+
+  const digests = apiKeys.map((apiKey) => ({ apiKey, digest: digest(apiKey.key) }));
+  const challenge = (error?: string, description?: string) =>
+    [
+      'Bearer realm="firestore-mcp"',
+      error ? `error="${error}"` : undefined,
+      description ? `error_description="${description.replace(/"/g, "'")}"` : undefined,
+      oauth ? `resource_metadata="${oauth.resourceMetadataUrl}"` : undefined,
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.header("origin");
+    if (origin && corsOrigins !== "*" && !corsOrigins.includes(origin.replace(/\/+$/, ""))) {
+      sendJsonRpcError(req, res, 403, FORBIDDEN_ERROR_CODE, `Forbidden: origin '${origin}' is not allowed.`);
+      return;
+    }
+
+    if (apiKeys.length === 0 && !oauth) {
+      next();
+      return;
+    }
+
+    const presented = readPresentedKey(req);
+    if (!presented) {
+      res.setHeader("WWW-Authenticate", challenge());
+      sendJsonRpcError(
+        req,
+        res,
+        401,
+        UNAUTHORIZED_ERROR_CODE,
+        oauth
+          ? "Unauthorized: send an access token as 'Authorization: Bearer <token>'."
+          : "Unauthorized: send an API key as 'Authorization: Bearer <key>' or 'X-API-Key'.",
+      );
+      return;
+    }
+
+    // Compare fixed-length digests in constant time and check every key so timing reveals nothing.
+    const presentedDigest = digest(presented);
+    let match: ApiKey | undefined;
+    for (const candidate of digests) {
+      if (timingSafeEqual(candidate.digest, presentedDigest) && !match) {
+        match = candidate.apiKey;
+      }
+    }
+
+    if (match) {
+      const { key, ...caller } = match;
+      const auth: AuthInfo = { token: key, clientId: caller.label, scopes: [], extra: { caller } };
+      (req as Request & { auth?: AuthInfo }).auth = auth;
+      next();
+      return;
+    }
+
+    if (!oauth) {
+      res.setHeader("WWW-Authenticate", challenge("invalid_token"));
+      sendJsonRpcError(req, res, 401, UNAUTHORIZED_ERROR_CODE, "Unauthorized: the API key is not valid.");
+      return;
+    }
+
+    try {
+      (req as Request & { auth?: AuthInfo }).auth = await oauth.verifier.verifyAccessToken(presented);
+    } catch (error) {
+      if (error instanceof InsufficientScopeError) {
+        res.setHeader("WWW-Authenticate", challenge(error.errorCode, error.message));
+        sendJsonRpcError(req, res, 403, FORBIDDEN_ERROR_CODE, `Forbidden: ${error.message}`);
+      } else if (error instanceof InvalidTokenError) {
+        res.setHeader("WWW-Authenticate", challenge(error.errorCode, error.message));
+        sendJsonRpcError(req, res, 401, UNAUTHORIZED_ERROR_CODE, `Unauthorized: ${error.message}`);
+      } else {
+        console.error("Access token verification failed:", error);
+        sendJsonRpcError(req, res, 500, INTERNAL_ERROR_CODE, "Internal server error while verifying the access token.");
+      }
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * FIRESTORE_MCP_RATE_LIMIT caps requests per minute per client: the authenticated caller, or the
+ * remote address when /mcp is open. Unset means no limit. Mount after the auth middleware.
+ */
+export function createRateLimitMiddleware(value = process.env.FIRESTORE_MCP_RATE_LIMIT): RequestHandler {
+  const limit = value === undefined || value.trim() === "" ? undefined : Number(value.trim());
+  if (limit === undefined) {
+    return (_req, _res, next) => next();
+  }
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`FIRESTORE_MCP_RATE_LIMIT must be a positive integer (got '${value}').`);
+  }
+
+  console.log(`Rate limit enabled: ${limit} requests per minute per client`);
+  const windows = new Map<string, { count: number; resetsAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const client = getRequestCaller(req) ?? req.ip ?? "unknown";
+
+    let window = windows.get(client);
+    if (!window || window.resetsAt <= now) {
+      // Expired windows are dropped lazily whenever a new one starts.
+      for (const [key, existing] of windows) {
+        if (existing.resetsAt <= now) {
+          windows.delete(key);
+        }
+      }
+      window = { count: 0, resetsAt: now + RATE_LIMIT_WINDOW_MS };
+      windows.set(client, window);
+    }
+
+    window.count += 1;
+    if (window.count > limit) {
+      const retryAfterSeconds = Math.ceil((window.resetsAt - now) / 1000);
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      sendJsonRpcError(req, res, 429, RATE_LIMITED_ERROR_CODE, `Too many requests: the limit is ${limit} per minute.`, {
+        limit,
+        retryAfterSeconds,
+        resetsAt: new Date(window.resetsAt).toISOString(),
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+export function sendForbidden(req: Request, res: Response, message: string): void {
+  sendJsonRpcError(req, res, 403, FORBIDDEN_ERROR_CODE, `Forbidden: ${message}`);
+}
+
+/**
+ * Namespaced id of the caller that authenticated the request, if any (see CallerIdentity.id).
+ * The OAuth client id is shared by every user of one client, so it is not used.
+ */
+export function getRequestCaller(req: Request): string | undefined {
+  const auth = (req as Request & { auth?: AuthInfo }).auth;
+  return (auth?.extra?.["caller"] as CallerIdentity | undefined)?.id;
+}
+
+function sendJsonRpcError(
+  req: Request,
+  res: Response,
+  status: number,
+  code: number,
+  message: string,
+  data?: Record<string, unknown>,
+): void {
+  const id = isPlainObject(req.body) && (typeof req.body["id"] === "string" || typeof req.body["id"] === "number")
+    ? req.body["id"]
+    : null;
+
+  res.status(status).json({ jsonrpc: "2.0", error: data ? { code, message, data } : { code, message }, id });
+}
+
+function readPresentedKey(req: Request): string | undefined {
+  const authorization = req.header("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (bearer) {
+    return bearer;
+  }
+
+  const apiKey = req.header("x-api-key")?.trim();
+  return apiKey ? apiKey : undefined;
+}
+
+function parseApiKey(value: unknown, label: string): ApiKey {
+  if (!isPlainObject(value)) {
+    throw new Error(`${label} must be an object with label and key`);
+  }
+
+  const { label: keyLabel, key, mode, collections, collectionGroups } = value;
+
+  if (typeof keyLabel !== "string" || keyLabel.trim() === "") {
+    throw new Error(`${label}.label must be a non-empty string`);
+  }
+
+  if (typeof key !== "string" || key.trim().length < 16) {
+    throw new Error(`${label}.key must be a string of at least 16 characters`);
+  }
+
+  if (mode !== undefined && !KEY_MODES.includes(mode)) {
+    throw new Error(`${label}.mode must be one of: ${KEY_MODES.join(", ")}`);
+  }
+
+  for (const [name, list] of Object.entries({ collections, collectionGroups })) {
+    if (list !== undefined && (!Array.isArray(list) || !list.every((item) => typeof item === "string" && item.trim() !== ""))) {
+      throw new Error(`${label}.${name} must be an array of non-empty strings`);
+    }
+  }
+
+  return {
+    id: `apikey:${keyLabel.trim()}`,
+    label: keyLabel.trim(),
+    key: key.trim(),
+    mode,
+    collections: collections?.map((pattern: string) => pattern.trim().replace(/^\/+|\/+$/g, "")),
+    collectionGroups: collectionGroups?.map((group: string) => group.trim()),
+  };
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value, "utf8").digest();
+}
@@ -1,11 +1,33 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { FIRESTORE_TOOL_DEFINITIONS, FirestoreToolExecutor } from "./firestore-tools.js";
+import { FirestoreToolExecutor } from "./firestore-tools.js";
+import type { CallerIdentity } from "./firestore-tools.js";
+import { ResourceSubscriptions } from "./resource-subscriptions.js";
+import { ToolSession } from "./tool-session.js";
 
-export function createMcpServer(executor: FirestoreToolExecutor): Server {
+export type McpServerOptions = {
+  /**
+   * Advertise resources/subscribe. Needs a transport that keeps a session open to push
+   * notifications on (stdio, SSE, stateful Streamable HTTP).
+   */
+  subscriptions?: boolean;
+  /** One server answers every client (stateless Streamable HTTP), so its session is shared between them. */
+  sharedSession?: boolean;
+};
+
+export function createMcpServer(executor: FirestoreToolExecutor, options: McpServerOptions = {}): Server {
+  const session = new ToolSession(options.sharedSession ?? false);
+  const subscribe = options.subscriptions ?? true;
   const server = new Server(
     {
       name: "firestore-mcp-server",
@@ -14,17 +36,77 @@ export function createMcpServer(executor: FirestoreToolExecutor): Server {
     {
       capabilities: {
         tools: {},
+        resources: subscribe ? { subscribe: true } : {},
+        prompts: {},
       },
     },
   );
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: FIRESTORE_TOOL_DEFINITIONS,
+  // HTTP auth middleware stores the caller on req.auth; the transports pass it through as authInfo.
+  const callerExecutor = (authInfo: { extra?: Record<string, unknown> } | undefined) =>
+    executor.forCaller(authInfo?.extra?.["caller"] as CallerIdentity | undefined);
+
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => ({
+    tools: callerExecutor(extra.authInfo).listTools(),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) =>
+    callerExecutor(extra.authInfo).execute(request.params.name, request.params.arguments ?? {}, session),
+  );
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => ({
+    resources: await callerExecutor(extra.authInfo).listResources(session),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (_request, extra) => ({
+    resourceTemplates: callerExecutor(extra.authInfo).listResourceTemplates(),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+    callerExecutor(extra.authInfo).readResource(request.params.uri, session),
+  );
+
+  server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => ({
+    prompts: callerExecutor(extra.authInfo).listPrompts(),
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) =>
-    executor.execute(request.params.name, request.params.arguments ?? {}),
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) =>
+    callerExecutor(extra.authInfo).getPrompt(request.params.name, request.params.arguments ?? {}, session),
   );
 
+  if (subscribe) {
+    const subscriptions = new ResourceSubscriptions();
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      await subscriptions.add(uri, () =>
+        callerExecutor(extra.authInfo).watchResource(
+          uri,
+          {
+            onChange: () => {
+              server.sendResourceUpdated({ uri }).catch((error) => {
+                console.error(`Failed to notify resource update for ${uri}:`, error);
+              });
+            },
+            onError: (error) => {
+              console.error(`Subscription to ${uri} ended: ${error.message}`);
+              subscriptions.remove(uri);
+            },
+          },
+          session,
+        ),
+      );
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.remove(request.params.uri);
+      return {};
+    });
+
+    // Transports chain their close into onclose, so ending a session detaches its listeners.
+    server.onclose = () => subscriptions.close();
+  }
+
   return server;
 }
@@ -0,0 +1,382 @@
+import { constants, createPublicKey, verify } from "node:crypto";
+import type { JsonWebKey, KeyObject } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { InsufficientScopeError, InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { RequestHandler } from "express";
+import { TOOL_SCOPES } from "./firestore-tools.js";
+import type { CallerIdentity } from "./firestore-tools.js";
+import { isPlainObject } from "./firestore-values.js";
+
+const SUPPORTED_SCOPES = Object.values(TOOL_SCOPES);
+
+// Tolerated clock skew between this server and the issuer when checking exp and nbf.
+const CLOCK_SKEW_SECONDS = 60;
+
+// An unknown kid triggers a JWKS refetch (key rotation), but not more often than this.
+const JWKS_REFRESH_INTERVAL_MS = 60 * 1000;
+
+type SignatureAlgorithm = {
+  digest: string | null;
+  padding?: "pss";
+  dsaEncoding?: "ieee-p1363";
+  /** Node's asymmetricKeyType values a key must have to verify this algorithm. */
+  keyTypes: string[];
+  namedCurve?: string;
+};
+
+// Only asymmetric algorithms: a shared-secret (HS*) or "none" token must never verify against a public key.
+const SIGNATURE_ALGORITHMS: Record<string, SignatureAlgorithm> = {
+  RS256: { digest: "sha256", keyTypes: ["rsa"] },
+  RS384: { digest: "sha384", keyTypes: ["rsa"] },
+  RS512: { digest: "sha512", keyTypes: ["rsa"] },
+  PS256: { digest: "sha256", padding: "pss", keyTypes: ["rsa", "rsa-pss"] },
+  PS384: { digest: "sha384", padding: "pss", keyTypes: ["rsa", "rsa-pss"] },
+  PS512: { digest: "sha512", padding: "pss", keyTypes: ["rsa", "rsa-pss"] },
+  ES256: { digest: "sha256", dsaEncoding: "ieee-p1363", keyTypes: ["ec"], namedCurve: "prime256v1" },
+  ES384: { digest: "sha384", dsaEncoding: "ieee-p1363", keyTypes: ["ec"], namedCurve: "secp384r1" },
+  ES512: { digest: "sha512", dsaEncoding: "ieee-p1363", keyTypes: ["ec"], namedCurve: "secp521r1" },
+  EdDSA: { digest: null, keyTypes: ["ed25519", "ed448"] },
+};
+
+export type OAuthSettings = {
+  issuer: string;
+  /** Public URL of the /mcp endpoint; published as the protected resource and expected in `aud`. */
+  resource: URL;
+  audience: string;
+  jwksUrl?: string;
+  jwksFile?: string;
+};
+
+type Jwk = JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+/** A JWKS entry; `alg` is the algorithm the JWK pins, if any. */
+type SigningKey = {
+  key: KeyObject;
+  alg?: string;
+};
+
+/**
+ * Reads FIRESTORE_MCP_OAUTH_ISSUER and friends. Returns undefined when OAuth is not configured.
+ * Keys come from FIRESTORE_MCP_OAUTH_JWKS_FILE, FIRESTORE_MCP_OAUTH_JWKS_URL, or the issuer's metadata.
+ */
+export function resolveOAuthSettings(defaultResource: string): OAuthSettings | undefined {
+  const issuer = readEnv("FIRESTORE_MCP_OAUTH_ISSUER");
+  if (!issuer) {
+    return undefined;
+  }
+
+  const jwksUrl = readEnv("FIRESTORE_MCP_OAUTH_JWKS_URL");
+  const jwksFile = readEnv("FIRESTORE_MCP_OAUTH_JWKS_FILE");
+  if (jwksUrl && jwksFile) {
+    throw new Error("Set either FIRESTORE_MCP_OAUTH_JWKS_URL or FIRESTORE_MCP_OAUTH_JWKS_FILE, not both.");
+  }
+
+  let resource: URL;
+  try {
+    resource = new URL(readEnv("FIRESTORE_MCP_RESOURCE_URL") ?? defaultResource);
+  } catch {
+    throw new Error("FIRESTORE_MCP_RESOURCE_URL must be an absolute URL such as https://your-app.example.com/mcp.");
+  }
+
+  return {
+    issuer,
+    resource,
+    audience: readEnv("FIRESTORE_MCP_OAUTH_AUDIENCE") ?? resource.href,
+    jwksUrl,
+    jwksFile,
+  };
+}
+
+/**
+ * Validates JWT access tokens issued for this server and maps their firestore:* scopes onto a
+ * CallerIdentity, which createMcpServer uses to decide which tools are advertised and allowed.
+ */
+export class JwtAccessTokenVerifier implements OAuthTokenVerifier {
+  private keys = new Map<string, SigningKey>();
+  private keysFetchedAt = 0;
+  private pendingFetch?: Promise<void>;
+
+  constructor(private readonly settings: OAuthSettings) {
+    if (settings.jwksFile) {
+      this.keys = parseJwks(readJsonFile(settings.jwksFile), `FIRESTORE_MCP_OAUTH_JWKS_FILE '${settings.jwksFile}'`);
+    }
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      throw new InvalidTokenError("Access token is not a JWT.");
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+    const header = decodeSegment(encodedHeader, "header");
+    const claims = decodeSegment(encodedPayload, "payload");
+
+    const algorithmName = typeof header["alg"] === "string" ? header["alg"] : undefined;
+    const algorithm = algorithmName && Object.hasOwn(SIGNATURE_ALGORITHMS, algorithmName)
+      ? SIGNATURE_ALGORITHMS[algorithmName]
+      : undefined;
+    if (!algorithmName || !algorithm) {
+      throw new InvalidTokenError(`Unsupported token signing algorithm '${String(header["alg"])}'.`);
+    }
+
+    const signingKey = await this.findKey(typeof header["kid"] === "string" ? header["kid"] : undefined);
+    if (!keyMatchesAlgorithm(signingKey, algorithmName, algorithm)) {
+      throw new InvalidTokenError(`Access token algorithm '${algorithmName}' does not match its signing key.`);
+    }
+
+    const key = signingKey.key;
+    const valid = verify(
+      algorithm.digest,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`, "ascii"),
+      {
+        key,
+        ...(algorithm.padding === "pss"
+          ? { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST }
+          : {}),
+        ...(algorithm.dsaEncoding ? { dsaEncoding: algorithm.dsaEncoding } : {}),
+      },
+      Buffer.from(encodedSignature, "base64url"),
+    );
+    if (!valid) {
+      throw new InvalidTokenError("Access token signature is invalid.");
+    }
+
+    this.checkClaims(claims);
+
+    const scopes = readScopes(claims);
+    const grantedScopes = SUPPORTED_SCOPES.filter((scope) => scopes.includes(scope));
+    if (grantedScopes.length === 0) {
+      throw new InsufficientScopeError(`Access token needs at least one of the scopes: ${SUPPORTED_SCOPES.join(", ")}.`);
+    }
+
+    const clientId = [claims["client_id"], claims["azp"], claims["sub"]].find(
+      (value): value is string => typeof value === "string" && value !== "",
+    ) ?? "unknown-client";
+    const subject = typeof claims["sub"] === "string" && claims["sub"] !== "" ? claims["sub"] : clientId;
+    const caller: CallerIdentity = {
+      id: `oauth:${this.settings.issuer}|${subject}`,
+      label: subject,
+      scopes: grantedScopes,
+    };
+
+    return {
+      token,
+      clientId,
+      scopes,
+      expiresAt: claims["exp"] as number,
+      resource: this.settings.resource,
+      extra: { caller },
+    };
+  }
+
+  private checkClaims(claims: Record<string, unknown>): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims["iss"] !== this.settings.issuer) {
+      throw new InvalidTokenError(`Access token issuer must be '${this.settings.issuer}'.`);
+    }
+
+    const audiences = Array.isArray(claims["aud"]) ? claims["aud"] : [claims["aud"]];
+    if (!audiences.includes(this.settings.audience)) {
+      throw new InvalidTokenError(`Access token audience must include '${this.settings.audience}'.`);
+    }
+
+    if (typeof claims["exp"] !== "number") {
+      throw new InvalidTokenError("Access token has no expiration time.");
+    }
+    if (claims["exp"] + CLOCK_SKEW_SECONDS < now) {
+      throw new InvalidTokenError("Access token has expired.");
+    }
+
+    if (typeof claims["nbf"] === "number" && claims["nbf"] - CLOCK_SKEW_SECONDS > now) {
+      throw new InvalidTokenError("Access token is not valid yet.");
+    }
+  }
+
+  private async findKey(kid: string | undefined): Promise<SigningKey> {
+    let key = this.lookupKey(kid);
+    if (!key && !this.settings.jwksFile && Date.now() - this.keysFetchedAt > JWKS_REFRESH_INTERVAL_MS) {
+      this.pendingFetch ??= this.fetchKeys().finally(() => {
+        this.pendingFetch = undefined;
+      });
+      await this.pendingFetch;
+      key = this.lookupKey(kid);
+    }
+
+    if (!key) {
+      throw new InvalidTokenError(kid ? `No signing key with kid '${kid}' in the issuer's JWKS.` : "No signing key found for the access token.");
+    }
+
+    return key;
+  }
+
+  private lookupKey(kid: string | undefined): SigningKey | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+
+    // Tokens without a kid are only accepted when the JWKS has exactly one key.
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    this.keysFetchedAt = Date.now();
+    const jwksUrl = this.settings.jwksUrl ?? (await discoverJwksUrl(this.settings.issuer));
+    this.keys = parseJwks(await fetchJson(jwksUrl), `JWKS '${jwksUrl}'`);
+  }
+}
+
+/** RFC 9728 protected resource metadata, served at the root well-known path and the path-suffixed one. */
+export function createProtectedResourceMetadataHandler(settings: OAuthSettings): RequestHandler {
+  const metadata = {
+    resource: settings.resource.href,
+    authorization_servers: [settings.issuer],
+    scopes_supported: SUPPORTED_SCOPES,
+    bearer_methods_supported: ["header"],
+    resource_name: "Firestore MCP Server",
+  };
+
+  return (_req, res) => {
+    res.json(metadata);
+  };
+}
+
+export function getProtectedResourceMetadataPaths(settings: OAuthSettings): string[] {
+  const suffix = settings.resource.pathname.replace(/\/+$/, "");
+  const root = "/.well-known/oauth-protected-resource";
+  return suffix ? [root, `${root}${suffix}`] : [root];
+}
+
+export function getProtectedResourceMetadataUrl(settings: OAuthSettings): string {
+  return new URL(getProtectedResourceMetadataPaths(settings).at(-1)!, settings.resource).href;
+}
+
+async function discoverJwksUrl(issuer: string): Promise<string> {
+  const issuerUrl = new URL(issuer);
+  const path = issuerUrl.pathname.replace(/\/+$/, "");
+  const candidates = [
+    new URL(`/.well-known/oauth-authorization-server${path}`, issuerUrl).href,
+    `${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`,
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      const metadata = await fetchJson(candidate);
+      if (typeof metadata["jwks_uri"] === "string") {
+        return metadata["jwks_uri"];
+      }
+    } catch {
+      // try the next well-known location
+    }
+  }
+
+  throw new InvalidTokenError(
+    `Could not discover jwks_uri for issuer '${issuer}'. Set FIRESTORE_MCP_OAUTH_JWKS_URL or FIRESTORE_MCP_OAUTH_JWKS_FILE.`,
+  );
+}
+
+async function fetchJson(url: string): Promise<Record<string, any>> {
+  const response = await fetch(url, { headers: { Accept: "application/json" } });
+  if (!response.ok) {
+    throw new Error(`GET ${url} returned HTTP ${response.status}`);
+  }
+
+  const body: unknown = await response.json();
+  if (!isPlainObject(body)) {
+    throw new Error(`GET ${url} did not return a JSON object`);
+  }
+
+  return body;
+}
+
+function readJsonFile(path: string): Record<string, any> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Unable to read FIRESTORE_MCP_OAUTH_JWKS_FILE '${path}': ${reason}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new Error(`FIRESTORE_MCP_OAUTH_JWKS_FILE '${path}' must contain a JWKS object`);
+  }
+
+  return parsed;
+}
+
+function parseJwks(jwks: Record<string, any>, source: string): Map<string, SigningKey> {
+  if (!Array.isArray(jwks["keys"])) {
+    throw new Error(`${source} must be a JWKS object with a keys array`);
+  }
+
+  const keys = new Map<string, SigningKey>();
+  (jwks["keys"] as Jwk[]).forEach((jwk, index) => {
+    if (!isPlainObject(jwk) || (jwk.use !== undefined && jwk.use !== "sig")) {
+      return;
+    }
+
+    try {
+      keys.set(jwk.kid ?? `#${index}`, { key: createPublicKey({ key: jwk, format: "jwk" }), alg: jwk.alg });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`${source} key ${jwk.kid ?? index} is not a valid public key: ${reason}`);
+    }
+  });
+
+  return keys;
+}
+
+/** The key must be of the algorithm's type (and curve), and a JWK that names an alg only verifies that alg. */
+function keyMatchesAlgorithm(signingKey: SigningKey, name: string, algorithm: SignatureAlgorithm): boolean {
+  if (signingKey.alg !== undefined && signingKey.alg !== name) {
+    return false;
+  }
+
+  const { key } = signingKey;
+  if (!key.asymmetricKeyType || !algorithm.keyTypes.includes(key.asymmetricKeyType)) {
+    return false;
+  }
+
+  return algorithm.namedCurve === undefined || key.asymmetricKeyDetails?.namedCurve === algorithm.namedCurve;
+}
+
+function decodeSegment(segment: string, name: string): Record<string, unknown> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidTokenError(`Access token ${name} is not valid base64url JSON.`);
+  }
+
+  if (!isPlainObject(decoded)) {
+    throw new InvalidTokenError(`Access token ${name} must be a JSON object.`);
+  }
+
+  return decoded;
+}
+
+/** `scope` is a space-separated string per RFC 9068; some issuers use an `scp` array instead. */
+function readScopes(claims: Record<string, unknown>): string[] {
+  if (typeof claims["scope"] === "string") {
+    return claims["scope"].split(" ").filter((scope) => scope !== "");
+  }
+
+  if (Array.isArray(claims["scp"])) {
+    return claims["scp"].filter((scope): scope is string => typeof scope === "string");
+  }
+
+  return [];
+}
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+
+  return value.trim();
+}
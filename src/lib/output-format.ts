@@ -0,0 +1,140 @@
+import { isPlainObject, isTypedValue } from "./firestore-values.js";
+
+export const OUTPUT_FORMATS = ["json", "json-compact", "ndjson", "csv", "markdown"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const OUTPUT_FORMAT_SET = new Set<OutputFormat>(OUTPUT_FORMATS);
+
+const TABULAR_FORMATS = new Set<OutputFormat>(["csv", "markdown"]);
+
+export type OutputFormatArgs = {
+  /** Undefined keeps each tool's default text layout. */
+  format?: OutputFormat;
+  columns?: string[];
+};
+
+/** Input schema properties shared by every tool that accepts `format`. */
+export const OUTPUT_FORMAT_PROPERTIES = {
+  format: {
+    type: "string",
+    enum: [...OUTPUT_FORMATS],
+    description:
+      "Text rendering of the results: json (pretty-printed, default), json-compact, ndjson (one JSON object per line), csv or markdown (a table; nested fields become dotted columns). structuredContent is unaffected.",
+  },
+  columns: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      "csv and markdown only: dotted column names to include, in order (e.g. ['id', 'profile.name']). Defaults to every column found.",
+  },
+};
+
+export function parseOutputFormatArgs(rawArgs: Record<string, unknown>): OutputFormatArgs {
+  const { format, columns } = rawArgs;
+
+  if (format !== undefined && (typeof format !== "string" || !OUTPUT_FORMAT_SET.has(format as OutputFormat))) {
+    throw new Error(`format must be one of: ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+
+  if (columns === undefined) {
+    return { format: format as OutputFormat | undefined };
+  }
+
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new Error("columns must be a non-empty array of column names when provided.");
+  }
+
+  if (!TABULAR_FORMATS.has(format as OutputFormat)) {
+    throw new Error("columns only applies to format 'csv' or 'markdown'; use select or fields to trim JSON output.");
+  }
+
+  return {
+    format: format as OutputFormat,
+    columns: columns.map((column, index) => {
+      if (typeof column !== "string" || column.trim() === "") {
+        throw new Error(`columns[${index}] must be a non-empty string.`);
+      }
+      return column.trim();
+    }),
+  };
+}
+
+/** Renders already sanitized records in the requested format; json is the default. */
+export function formatRecords(records: Array<Record<string, unknown>>, args: OutputFormatArgs): string {
+  switch (args.format ?? "json") {
+    case "json":
+      return JSON.stringify(records, null, 2);
+    case "json-compact":
+      return JSON.stringify(records);
+    case "ndjson":
+      return records.map((record) => JSON.stringify(record)).join("\n");
+    case "csv":
+      return renderTable(records, args.columns, (row) => row.map(escapeCsvCell).join(","), false);
+    case "markdown":
+      return renderTable(records, args.columns, (row) => `| ${row.map(escapeMarkdownCell).join(" | ")} |`, true);
+  }
+}
+
+function renderTable(
+  records: Array<Record<string, unknown>>,
+  selectedColumns: string[] | undefined,
+  renderRow: (cells: string[]) => string,
+  headerRule: boolean,
+): string {
+  const rows = records.map((record) => flattenRecord(record));
+
+  let columns = selectedColumns;
+  if (!columns) {
+    const seen = new Set<string>();
+    rows.forEach((row) => row.forEach((_value, column) => seen.add(column)));
+    columns = Array.from(seen);
+  }
+
+  const lines = [renderRow(columns)];
+  if (headerRule) {
+    lines.push(`| ${columns.map(() => "---").join(" | ")} |`);
+  }
+
+  for (const row of rows) {
+    lines.push(renderRow(columns.map((column) => row.get(column) ?? "")));
+  }
+
+  return lines.join("\n");
+}
+
+/** Nested maps become dotted columns; arrays stay whole as JSON and typed values print their payload. */
+function flattenRecord(record: Record<string, unknown>, prefix = "", row = new Map<string, string>()): Map<string, string> {
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value) && !isTypedValue(value) && Object.keys(value).length > 0) {
+      flattenRecord(value, column, row);
+    } else {
+      row.set(column, formatCell(value));
+    }
+  }
+
+  return row;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  if (isTypedValue(value)) {
+    const payload = Object.values(value)[0];
+    return typeof payload === "string" ? payload : JSON.stringify(payload);
+  }
+
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function escapeCsvCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function escapeMarkdownCell(cell: string): string {
+  return cell.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
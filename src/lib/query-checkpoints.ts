@@ -0,0 +1,231 @@
+import { randomBytes } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { isPlainObject, isTypedValue } from "./firestore-values.js";
+
+const CHECKPOINT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Oldest checkpoints are evicted past this count; each holds up to FIRESTORE_MCP_MAX_LIMIT documents.
+const MAX_CHECKPOINTS = 500;
+
+/** Result of a watch_query run: the query that produced it and every document it matched. */
+export type QueryCheckpoint = {
+  id: string;
+  /**
+   * `caller:<id>`, or `session:<id>` without authentication, so anonymous checkpoints die with their
+   * session. Checkpoints are invisible to other owners.
+   */
+  owner: string;
+  /** watch_query arguments as sent, re-validated whenever the checkpoint is used. */
+  query: Record<string, unknown>;
+  createdAt: string;
+  expiresAt: string;
+  /** Sanitized document data by path, as the owner saw it. */
+  documents: Record<string, Record<string, unknown>>;
+};
+
+/** Where watch_query keeps checkpoints. Implementations must drop expired ones. */
+export type CheckpointStore = {
+  load(id: string): Promise<QueryCheckpoint | undefined>;
+  save(checkpoint: QueryCheckpoint): Promise<void>;
+};
+
+export type FieldChange = {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type DocumentChange =
+  | { type: "added"; id: string; path: string; data: Record<string, unknown> }
+  | { type: "modified"; id: string; path: string; fields: FieldChange[] }
+  | { type: "removed"; id: string; path: string };
+
+export function createCheckpoint(
+  owner: string,
+  query: Record<string, unknown>,
+  documents: Record<string, Record<string, unknown>>,
+): QueryCheckpoint {
+  const now = Date.now();
+  return {
+    id: randomBytes(12).toString("base64url"),
+    owner,
+    query,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CHECKPOINT_TTL_MS).toISOString(),
+    documents,
+  };
+}
+
+/** Changes from `before` to `after`, ordered as `after` followed by removed documents. */
+export function diffDocuments(
+  before: Record<string, Record<string, unknown>>,
+  after: Record<string, Record<string, unknown>>,
+): DocumentChange[] {
+  const changes: DocumentChange[] = [];
+
+  for (const [path, data] of Object.entries(after)) {
+    const previous = before[path];
+    if (!previous) {
+      changes.push({ type: "added", id: documentId(path), path, data });
+      continue;
+    }
+
+    const fields = diffFields(previous, data);
+    if (fields.length > 0) {
+      changes.push({ type: "modified", id: documentId(path), path, fields });
+    }
+  }
+
+  for (const path of Object.keys(before)) {
+    if (!(path in after)) {
+      changes.push({ type: "removed", id: documentId(path), path });
+    }
+  }
+
+  return changes;
+}
+
+/** FIRESTORE_MCP_CHECKPOINT_FILE keeps checkpoints in a JSON file across restarts; otherwise they live in memory. */
+export function createCheckpointStore(file = process.env.FIRESTORE_MCP_CHECKPOINT_FILE): CheckpointStore {
+  if (file === undefined || file.trim() === "") {
+    return new MemoryCheckpointStore();
+  }
+
+  return new FileCheckpointStore(file.trim());
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  protected readonly checkpoints = new Map<string, QueryCheckpoint>();
+
+  async load(id: string): Promise<QueryCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(id);
+    if (checkpoint && Date.parse(checkpoint.expiresAt) <= Date.now()) {
+      this.checkpoints.delete(id);
+      return undefined;
+    }
+
+    return checkpoint;
+  }
+
+  async save(checkpoint: QueryCheckpoint): Promise<void> {
+    this.prune();
+    this.checkpoints.set(checkpoint.id, checkpoint);
+  }
+
+  protected prune(): void {
+    const now = Date.now();
+    for (const [id, checkpoint] of this.checkpoints) {
+      if (Date.parse(checkpoint.expiresAt) <= now) {
+        this.checkpoints.delete(id);
+      }
+    }
+
+    // Maps iterate in insertion order, so the first keys are the oldest checkpoints.
+    for (const id of this.checkpoints.keys()) {
+      if (this.checkpoints.size < MAX_CHECKPOINTS) {
+        break;
+      }
+      this.checkpoints.delete(id);
+    }
+  }
+}
+
+/**
+ * Checkpoints persisted as one JSON file, read on first use and rewritten after every save.
+ * Meant for a single server process; concurrent processes sharing the file overwrite each other.
+ */
+export class FileCheckpointStore extends MemoryCheckpointStore {
+  private loaded?: Promise<void>;
+  private writes = Promise.resolve();
+
+  constructor(private readonly file: string) {
+    super();
+  }
+
+  override async load(id: string): Promise<QueryCheckpoint | undefined> {
+    await this.readFile();
+    return super.load(id);
+  }
+
+  override async save(checkpoint: QueryCheckpoint): Promise<void> {
+    await this.readFile();
+    await super.save(checkpoint);
+
+    const contents = JSON.stringify({ checkpoints: Array.from(this.checkpoints.values()) });
+    const write = this.writes.then(async () => {
+      const temporary = `${this.file}.tmp`;
+      await writeFile(temporary, contents, "utf8");
+      await rename(temporary, this.file);
+    });
+    this.writes = write.catch(() => {});
+    await write;
+  }
+
+  /** A failed read is not cached, so the next call retries once the file is fixed. */
+  private readFile(): Promise<void> {
+    this.loaded ??= this.parseFile().catch((error: unknown) => {
+      this.loaded = undefined;
+      throw error;
+    });
+
+    return this.loaded;
+  }
+
+  private async parseFile(): Promise<void> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(this.file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Checkpoint file '${this.file}' could not be read: ${reason}`);
+    }
+
+    const checkpoints = isPlainObject(parsed) && Array.isArray(parsed["checkpoints"]) ? parsed["checkpoints"] : [];
+    for (const checkpoint of checkpoints as QueryCheckpoint[]) {
+      this.checkpoints.set(checkpoint.id, checkpoint);
+    }
+  }
+}
+
+function documentId(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/** Compares leaf values by dotted field path; arrays and typed values are compared whole. */
+function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const previous = flattenFields(before);
+  const next = flattenFields(after);
+  const changes: FieldChange[] = [];
+
+  for (const [field, value] of next) {
+    if (!previous.has(field)) {
+      changes.push({ field, after: value });
+    } else if (JSON.stringify(previous.get(field)) !== JSON.stringify(value)) {
+      changes.push({ field, before: previous.get(field), after: value });
+    }
+  }
+
+  for (const [field, value] of previous) {
+    if (!next.has(field)) {
+      changes.push({ field, before: value });
+    }
+  }
+
+  return changes;
+}
+
+function flattenFields(data: Record<string, unknown>, prefix = "", fields = new Map<string, unknown>()): Map<string, unknown> {
+  for (const [key, value] of Object.entries(data)) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && !isTypedValue(value) && Object.keys(value).length > 0) {
+      flattenFields(value, field, fields);
+    } else {
+      fields.set(field, value);
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,150 @@
+const DEFAULT_MAX_LIMIT = 1000;
+const DEFAULT_MAX_SAMPLE_SIZE = 100;
+const DEFAULT_BUDGET_WINDOW_SECONDS = 3600;
+
+// Budget windows of idle sessions are dropped once this many are tracked.
+const MAX_TRACKED_BUDGETS = 10000;
+
+export type ReadQuotaSettings = {
+  maxLimit: number;
+  maxSampleSize: number;
+  /** Document reads allowed per budget key and window; undefined means unlimited. */
+  readBudget?: number;
+  windowMs: number;
+};
+
+type BudgetWindow = {
+  used: number;
+  resetsAt: number;
+};
+
+export type ReadBudgetDetails = {
+  budget: number;
+  used: number;
+  remaining: number;
+  requested: number;
+  resetsAt: string;
+};
+
+export class ReadBudgetExceededError extends Error {
+  constructor(readonly details: ReadBudgetDetails) {
+    super(
+      `Read budget exceeded: this call needs up to ${details.requested} document reads but only ${details.remaining} of ${details.budget} remain until ${details.resetsAt}.`,
+    );
+    this.name = "ReadBudgetExceededError";
+  }
+}
+
+export function resolveReadQuotaSettings(): ReadQuotaSettings {
+  return {
+    maxLimit: readPositiveIntegerEnv("FIRESTORE_MCP_MAX_LIMIT") ?? DEFAULT_MAX_LIMIT,
+    maxSampleSize: readPositiveIntegerEnv("FIRESTORE_MCP_MAX_SAMPLE_SIZE") ?? DEFAULT_MAX_SAMPLE_SIZE,
+    readBudget: readPositiveIntegerEnv("FIRESTORE_MCP_READ_BUDGET"),
+    windowMs: (readPositiveIntegerEnv("FIRESTORE_MCP_READ_BUDGET_WINDOW_SECONDS") ?? DEFAULT_BUDGET_WINDOW_SECONDS) * 1000,
+  };
+}
+
+/**
+ * Document-read budgets in fixed windows, keyed by API key / token subject or by MCP session.
+ * One instance is shared by every executor of a server so budgets hold across sessions of the same caller.
+ */
+export class ReadQuota {
+  private readonly windows = new Map<string, BudgetWindow>();
+
+  constructor(readonly settings: ReadQuotaSettings = resolveReadQuotaSettings()) {}
+
+  /** Starts counting the reads of one tool call against `budgetKey`. */
+  track(budgetKey: string): ReadTracker {
+    return new ReadTracker(this, budgetKey);
+  }
+
+  /** @internal */
+  window(budgetKey: string): BudgetWindow {
+    const now = Date.now();
+    let window = this.windows.get(budgetKey);
+    if (!window || window.resetsAt <= now) {
+      if (this.windows.size >= MAX_TRACKED_BUDGETS) {
+        this.pruneWindows(now);
+      }
+      window = { used: 0, resetsAt: now + this.settings.windowMs };
+      this.windows.set(budgetKey, window);
+    }
+
+    return window;
+  }
+
+  private pruneWindows(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetsAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Reads of a single tool call. Tools `reserve` what they may read before touching Firestore and
+ * `record` what they actually read afterwards; queries that return nothing still cost one read.
+ */
+export class ReadTracker {
+  private recorded = 0;
+
+  constructor(
+    private readonly quota: ReadQuota,
+    private readonly budgetKey: string,
+  ) {}
+
+  get reads(): number {
+    return this.recorded;
+  }
+
+  /** Reads left in the current window, or Infinity without a budget. */
+  remaining(): number {
+    const budget = this.quota.settings.readBudget;
+    if (budget === undefined) {
+      return Infinity;
+    }
+
+    return Math.max(budget - this.quota.window(this.budgetKey).used, 0);
+  }
+
+  reserve(reads: number): void {
+    const budget = this.quota.settings.readBudget;
+    if (budget === undefined) {
+      return;
+    }
+
+    const window = this.quota.window(this.budgetKey);
+    const remaining = Math.max(budget - window.used, 0);
+    if (reads > remaining) {
+      throw new ReadBudgetExceededError({
+        budget,
+        used: window.used,
+        remaining,
+        requested: reads,
+        resetsAt: new Date(window.resetsAt).toISOString(),
+      });
+    }
+  }
+
+  record(reads: number): void {
+    this.recorded += reads;
+    if (this.quota.settings.readBudget !== undefined) {
+      this.quota.window(this.budgetKey).used += reads;
+    }
+  }
+}
+
+function readPositiveIntegerEnv(name: string): number | undefined {
+  const value = process.env[name]?.trim();
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer (got '${value}').`);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,101 @@
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { ResourceError } from "./firestore-resources.js";
+
+const DEFAULT_MAX_SUBSCRIPTIONS = 20;
+const DEFAULT_SESSION_IDLE_MINUTES = 30;
+
+/** FIRESTORE_MCP_MAX_SUBSCRIPTIONS caps live listeners per MCP session (default 20). */
+export function resolveMaxSubscriptions(value = process.env.FIRESTORE_MCP_MAX_SUBSCRIPTIONS): number {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_MAX_SUBSCRIPTIONS;
+  }
+
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`FIRESTORE_MCP_MAX_SUBSCRIPTIONS must be a positive integer (got '${value}').`);
+  }
+
+  return parsed;
+}
+
+/**
+ * FIRESTORE_MCP_SESSION_IDLE_MINUTES closes stateful Streamable HTTP sessions, and with them their
+ * listeners, after this long without requests or open streams (default 30).
+ */
+export function resolveSessionIdleMs(value = process.env.FIRESTORE_MCP_SESSION_IDLE_MINUTES): number {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_SESSION_IDLE_MINUTES * 60 * 1000;
+  }
+
+  const parsed = Number(value.trim());
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`FIRESTORE_MCP_SESSION_IDLE_MINUTES must be a positive number (got '${value}').`);
+  }
+
+  return parsed * 60 * 1000;
+}
+
+/** Live listeners of one MCP session, keyed by resource URI. `close` detaches them all. */
+export class ResourceSubscriptions {
+  private readonly listeners = new Map<string, () => void>();
+  private closed = false;
+
+  constructor(private readonly maxSubscriptions = resolveMaxSubscriptions()) {}
+
+  get size(): number {
+    return this.listeners.size;
+  }
+
+  /** Subscribing twice to the same URI keeps the existing listener. */
+  async add(uri: string, start: () => Promise<() => void>): Promise<void> {
+    if (this.closed) {
+      throw new ResourceError(ErrorCode.ConnectionClosed, "The session is closed.");
+    }
+
+    if (this.listeners.has(uri)) {
+      return;
+    }
+
+    if (this.listeners.size >= this.maxSubscriptions) {
+      throw new ResourceError(
+        ErrorCode.InvalidRequest,
+        `SUBSCRIPTION_LIMIT: this session already has ${this.maxSubscriptions} subscriptions. Unsubscribe from one first.`,
+      );
+    }
+
+    // Hold the slot while the listener starts so concurrent subscribes respect the cap.
+    this.listeners.set(uri, () => {});
+    let stop: () => void;
+    try {
+      stop = await start();
+    } catch (error) {
+      this.listeners.delete(uri);
+      throw error;
+    }
+
+    if (this.closed || !this.listeners.has(uri)) {
+      stop();
+      return;
+    }
+
+    this.listeners.set(uri, stop);
+  }
+
+  remove(uri: string): boolean {
+    const stop = this.listeners.get(uri);
+    if (!stop) {
+      return false;
+    }
+
+    this.listeners.delete(uri);
+    stop();
+    return true;
+  }
+
+  close(): void {
+    this.closed = true;
+    for (const uri of Array.from(this.listeners.keys())) {
+      this.remove(uri);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { isPlainObject, isTypedValue } from "./firestore-values.js";
+
+const DEFAULT_MAX_RESPONSE_TOKENS = 25000;
+
+// Rough size of a token in JSON-heavy text; good enough to keep responses in budget.
+const CHARS_PER_TOKEN = 4;
+
+// Values are only shortened once a response is over budget.
+const SHORTENED_STRING_CHARS = 256;
+const SHORTENED_ARRAY_ITEMS = 20;
+
+/** Input schema property for tools whose responses are fitted to a token budget. */
+export const MAX_RESPONSE_TOKENS_PROPERTY = {
+  type: "number",
+  description:
+    "Approximate token budget for the response (default: the server's FIRESTORE_MCP_MAX_RESPONSE_TOKENS, 25000 unless configured). Over budget, long strings and arrays are shortened and trailing documents dropped.",
+};
+
+/** outputSchema fragment reporting what fitRecords left out. */
+export const TRUNCATION_OUTPUT_SCHEMA = {
+  type: "object",
+  description: "Present when the response was trimmed to fit maxResponseTokens.",
+  properties: {
+    maxResponseTokens: { type: "number" },
+    shortenedValues: { type: "number" },
+    omittedDocuments: { type: "number" },
+  },
+  required: ["maxResponseTokens", "shortenedValues", "omittedDocuments"],
+};
+
+export type FittedRecords<T> = {
+  records: T[];
+  /** Strings and arrays cut short with a `…(+N chars)` / `…(+N items)` marker. */
+  shortenedValues: number;
+  omittedRecords: number;
+};
+
+/** FIRESTORE_MCP_MAX_RESPONSE_TOKENS sets the server-wide default; tools accept maxResponseTokens per call. */
+export function resolveMaxResponseTokens(value = process.env.FIRESTORE_MCP_MAX_RESPONSE_TOKENS): number {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_MAX_RESPONSE_TOKENS;
+  }
+
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`FIRESTORE_MCP_MAX_RESPONSE_TOKENS must be a positive integer (got '${value}').`);
+  }
+
+  return parsed;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fits `records` into `maxTokens` as measured by `render`: first long strings and arrays are
+ * shortened, then trailing records are dropped. At least one record is always kept so callers
+ * can continue after it.
+ */
+export function fitRecords<T extends Record<string, unknown>>(
+  records: T[],
+  maxTokens: number,
+  render: (records: T[]) => string,
+): FittedRecords<T> {
+  if (records.length === 0 || estimateTokens(render(records)) <= maxTokens) {
+    return { records, shortenedValues: 0, omittedRecords: 0 };
+  }
+
+  const counters = records.map(() => ({ shortened: 0 }));
+  const shortened = records.map((record, index) => shortenValue(record, counters[index]!) as T);
+
+  // Binary search for the longest prefix that fits.
+  let low = 1;
+  let high = shortened.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (estimateTokens(render(shortened.slice(0, middle))) <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return {
+    records: shortened.slice(0, low),
+    shortenedValues: counters.slice(0, low).reduce((total, counter) => total + counter.shortened, 0),
+    omittedRecords: records.length - low,
+  };
+}
+
+export type Truncation = {
+  maxResponseTokens: number;
+  shortenedValues: number;
+  omittedDocuments: number;
+};
+
+/** The `truncation` entry of structuredContent, or undefined when nothing was trimmed. */
+export function describeTruncation(fitted: FittedRecords<unknown>, maxResponseTokens: number): Truncation | undefined {
+  if (fitted.shortenedValues === 0 && fitted.omittedRecords === 0) {
+    return undefined;
+  }
+
+  return { maxResponseTokens, shortenedValues: fitted.shortenedValues, omittedDocuments: fitted.omittedRecords };
+}
+
+function shortenValue(value: unknown, counter: { shortened: number }): unknown {
+  if (typeof value === "string" && value.length > SHORTENED_STRING_CHARS) {
+    counter.shortened += 1;
+    return `${value.slice(0, SHORTENED_STRING_CHARS)}${shortenedMarker(value.length - SHORTENED_STRING_CHARS, "chars")}`;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, SHORTENED_ARRAY_ITEMS).map((item) => shortenValue(item, counter));
+    if (value.length > SHORTENED_ARRAY_ITEMS) {
+      counter.shortened += 1;
+      items.push(shortenedMarker(value.length - SHORTENED_ARRAY_ITEMS, "items"));
+    }
+    return items;
+  }
+
+  // Typed values such as {"$bytes": ...} are replaced whole so they never decode to something else.
+  if (isTypedValue(value)) {
+    const payload = JSON.stringify(value);
+    if (payload.length > SHORTENED_STRING_CHARS) {
+      counter.shortened += 1;
+      return shortenedMarker(payload.length, "chars");
+    }
+    return value;
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, nestedValue] of Object.entries(value)) {
+      result[key] = shortenValue(nestedValue, counter);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function shortenedMarker(count: number, unit: "chars" | "items"): string {
+  return `…(+${count} ${unit})`;
+}
@@ -0,0 +1,323 @@
+import { randomInt } from "node:crypto";
+import type { AccessPolicy } from "./access-policy.js";
+import { describeValueType, isPlainObject, sanitizeFirestoreValue, TIMESTAMP_OUTPUT_SCHEMA } from "./firestore-values.js";
+
+export const SAMPLING_STRATEGIES = ["first", "random", "stratified"] as const;
+
+export type SamplingStrategy = typeof SAMPLING_STRATEGIES[number];
+
+// Firestore orders document ids by byte value; auto-generated ids are 20 of these characters.
+const AUTO_ID_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const AUTO_ID_LENGTH = 20;
+
+const MAX_STRATA = 10;
+
+// A string field is reported as an enum when it has at most this many distinct values, each seen twice on average.
+const ENUM_MAX_VALUES = 10;
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+export type FieldSummary = {
+  field: string;
+  /** Sampled documents that contain the field, and their share in percent. */
+  count: number;
+  presence: number;
+  types: string[];
+  typeCounts: Record<string, number>;
+  /** Element types of array values. */
+  itemTypes?: Record<string, number>;
+  /** Smallest and largest number, or timestamp when the field holds no numbers. */
+  min?: unknown;
+  max?: unknown;
+  /** Distinct string, number and boolean values. */
+  distinctValues?: number;
+  enum?: string[];
+  example: unknown;
+};
+
+type Range = {
+  min: { key: number; value: unknown };
+  max: { key: number; value: unknown };
+};
+
+type FieldStats = {
+  count: number;
+  types: Map<string, number>;
+  itemTypes: Map<string, number>;
+  integersOnly: boolean;
+  numbers?: Range;
+  timestamps?: Range;
+  distinct: Set<string>;
+  strings: Set<string>;
+  stringCount: number;
+  example: unknown;
+};
+
+/** outputSchema fragment for a FieldSummary. */
+export const FIELD_SUMMARY_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    field: { type: "string", description: "Dotted field path." },
+    count: { type: "number", description: "Sampled documents that contain the field." },
+    presence: { type: "number", description: "Percentage of sampled documents that contain the field." },
+    types: { type: "array", items: { type: "string" } },
+    typeCounts: { type: "object", additionalProperties: { type: "number" } },
+    itemTypes: {
+      type: "object",
+      description: "Element types of array values, with counts.",
+      additionalProperties: { type: "number" },
+    },
+    min: { description: "Smallest number, or earliest timestamp when the field holds no numbers." },
+    max: { description: "Largest number, or latest timestamp when the field holds no numbers." },
+    distinctValues: { type: "number", description: "Distinct string, number and boolean values in the sample." },
+    enum: {
+      type: "array",
+      description: "All values of a low-cardinality string field.",
+      items: { type: "string" },
+    },
+    example: { description: "One sampled value, in the typed JSON encoding." },
+  },
+  required: ["field", "count", "presence", "types", "typeCounts"],
+};
+
+/** Accumulates per-field statistics over sampled documents. Nested maps are walked; arrays are summarized by element type. */
+export class SchemaCollector {
+  private readonly stats = new Map<string, FieldStats>();
+  private documents = 0;
+
+  add(data: Record<string, unknown>): void {
+    this.documents += 1;
+    this.collect(data, "");
+  }
+
+  /**
+   * Field summaries sorted by path. Value statistics (range, distinct values, enum) are left out
+   * for fields the access policy redacts or hashes, since they would reveal the values.
+   */
+  summarize(policy: AccessPolicy): FieldSummary[] {
+    return Array.from(this.stats.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([field, stats]) => {
+        const summary: FieldSummary = {
+          field,
+          count: stats.count,
+          presence: Math.round((stats.count * 1000) / Math.max(this.documents, 1)) / 10,
+          types: Array.from(stats.types.keys()),
+          typeCounts: Object.fromEntries(stats.types),
+          ...(stats.itemTypes.size > 0 && { itemTypes: Object.fromEntries(stats.itemTypes) }),
+          example: policy.sanitize(stats.example, field),
+        };
+
+        if (policy.fieldAction(field) !== undefined) {
+          return summary;
+        }
+
+        const range = stats.numbers ?? stats.timestamps;
+        if (range) {
+          summary.min = sanitizeFirestoreValue(range.min.value);
+          summary.max = sanitizeFirestoreValue(range.max.value);
+        }
+
+        if (stats.distinct.size > 0) {
+          summary.distinctValues = stats.distinct.size;
+        }
+
+        if (stats.strings.size > 0 && stats.strings.size <= ENUM_MAX_VALUES && stats.stringCount >= stats.strings.size * 2) {
+          summary.enum = Array.from(stats.strings).sort();
+        }
+
+        return summary;
+      });
+  }
+
+  /**
+   * JSON Schema (draft 2020-12) for documents as the tools print them, i.e. with typed values such as
+   * {"$timestamp": ...}. Fields present in every sampled document (or parent map) are required.
+   */
+  toJsonSchema(title: string, summaries: FieldSummary[]): Record<string, unknown> {
+    const children = new Map<string, FieldSummary[]>();
+    for (const summary of summaries) {
+      const parent = summary.field.includes(".") ? summary.field.slice(0, summary.field.lastIndexOf(".")) : "";
+      children.set(parent, [...(children.get(parent) ?? []), summary]);
+    }
+
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      title,
+      description: `Inferred from ${this.documents} sampled documents.`,
+      ...this.objectSchema("", this.documents, children),
+    };
+  }
+
+  private objectSchema(
+    parent: string,
+    parentCount: number,
+    children: Map<string, FieldSummary[]>,
+  ): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+
+    for (const summary of children.get(parent) ?? []) {
+      const key = parent ? summary.field.slice(parent.length + 1) : summary.field;
+      const stats = this.stats.get(summary.field)!;
+      properties[key] = this.fieldSchema(summary, stats, children);
+      if (stats.count === parentCount) {
+        required.push(key);
+      }
+    }
+
+    return { type: "object", properties, ...(required.length > 0 && { required }) };
+  }
+
+  private fieldSchema(summary: FieldSummary, stats: FieldStats, children: Map<string, FieldSummary[]>): Record<string, unknown> {
+    const schemas = summary.types.map((type) => {
+      switch (type) {
+        case "string":
+          return summary.enum ? { type: "string", enum: summary.enum } : { type: "string" };
+        case "number":
+          return { type: stats.integersOnly ? "integer" : "number" };
+        case "object":
+          return this.objectSchema(summary.field, stats.types.get("object") ?? 0, children);
+        case "array": {
+          const items = Array.from(stats.itemTypes.keys()).map(valueSchema);
+          return items.length === 0 ? { type: "array" } : { type: "array", items: items.length === 1 ? items[0] : { anyOf: items } };
+        }
+        default:
+          return valueSchema(type);
+      }
+    });
+
+    const description = `Present in ${summary.presence}% of sampled documents.`;
+    return schemas.length === 1 ? { ...schemas[0], description } : { anyOf: schemas, description };
+  }
+
+  private collect(data: Record<string, unknown>, prefix: string): void {
+    for (const [key, value] of Object.entries(data)) {
+      const field = prefix ? `${prefix}.${key}` : key;
+      const type = describeValueType(value);
+      const stats = this.fieldStats(field, value);
+
+      stats.count += 1;
+      stats.types.set(type, (stats.types.get(type) ?? 0) + 1);
+
+      switch (type) {
+        case "number":
+          stats.integersOnly &&= Number.isInteger(value);
+          stats.numbers = widenRange(stats.numbers, value as number, value);
+          stats.distinct.add(`number:${value}`);
+          break;
+        case "string":
+          stats.stringCount += 1;
+          stats.strings.add(value as string);
+          stats.distinct.add(`string:${value}`);
+          break;
+        case "boolean":
+          stats.distinct.add(`boolean:${value}`);
+          break;
+        case "timestamp":
+          stats.timestamps = widenRange(stats.timestamps, timestampMillis(value), value);
+          break;
+        case "array":
+          for (const item of value as unknown[]) {
+            const itemType = describeValueType(item);
+            stats.itemTypes.set(itemType, (stats.itemTypes.get(itemType) ?? 0) + 1);
+          }
+          break;
+        case "object":
+          if (isPlainObject(value)) {
+            this.collect(value, field);
+          }
+          break;
+      }
+    }
+  }
+
+  private fieldStats(field: string, example: unknown): FieldStats {
+    let stats = this.stats.get(field);
+    if (!stats) {
+      stats = {
+        count: 0,
+        types: new Map(),
+        itemTypes: new Map(),
+        integersOnly: true,
+        distinct: new Set(),
+        strings: new Set(),
+        stringCount: 0,
+        example,
+      };
+      this.stats.set(field, stats);
+    }
+
+    return stats;
+  }
+}
+
+/** Random ids in the auto-id alphabet; each one is a startAt cursor for one random document. */
+export function randomDocumentIds(count: number): string[] {
+  return Array.from({ length: count }, () =>
+    Array.from({ length: AUTO_ID_LENGTH }, () => AUTO_ID_ALPHABET[randomInt(AUTO_ID_ALPHABET.length)]).join(""),
+  );
+}
+
+/**
+ * Splits the document-id space into up to 10 contiguous ranges by first character and spreads
+ * `sampleSize` over them. The first range is open below and the last open above, so every id is covered.
+ */
+export function documentIdStrata(sampleSize: number): Array<{ startAt?: string; endBefore?: string; limit: number }> {
+  const strata = Math.min(sampleSize, MAX_STRATA);
+  const bounds = Array.from({ length: strata }, (_, index) =>
+    AUTO_ID_ALPHABET[Math.floor((index * AUTO_ID_ALPHABET.length) / strata)]!,
+  );
+
+  return bounds.map((_, index) => ({
+    ...(index > 0 && { startAt: bounds[index] }),
+    ...(index < strata - 1 && { endBefore: bounds[index + 1] }),
+    limit: Math.floor(sampleSize / strata) + (index < sampleSize % strata ? 1 : 0),
+  }));
+}
+
+function widenRange(range: Range | undefined, key: number, value: unknown): Range {
+  if (!range) {
+    return { min: { key, value }, max: { key, value } };
+  }
+
+  return {
+    min: key < range.min.key ? { key, value } : range.min,
+    max: key > range.max.key ? { key, value } : range.max,
+  };
+}
+
+function timestampMillis(value: unknown): number {
+  return value instanceof Date ? value.getTime() : (value as { toMillis: () => number }).toMillis();
+}
+
+/** Schema of a single value in the typed JSON encoding; maps and arrays are not described further. */
+function valueSchema(type: string): Record<string, unknown> {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "null":
+    case "object":
+    case "array":
+      return { type };
+    case "timestamp":
+      return TIMESTAMP_OUTPUT_SCHEMA;
+    case "reference":
+      return { type: "object", properties: { $ref: { type: "string" } }, required: ["$ref"] };
+    case "geopoint":
+      return {
+        type: "object",
+        properties: { $geopoint: { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 } },
+        required: ["$geopoint"],
+      };
+    case "bytes":
+      return {
+        type: "object",
+        properties: { $bytes: { type: "string", contentEncoding: "base64" } },
+        required: ["$bytes"],
+      };
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,105 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * `structuredContent` must match the tool's outputSchema; `text` is the human-readable
+ * fallback for clients that ignore structured output.
+ */
+export function successResult(text: string, structuredContent: Record<string, unknown>): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    structuredContent,
+  };
+}
+
+export function errorResult(message: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: message,
+      },
+    ],
+    isError: true,
+  };
+}
+
+export function parseDocumentPath(value: unknown, label: string): string {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${label} must be a non-empty string.`);
+  }
+
+  const path = value.trim().replace(/^\/+|\/+$/g, "");
+  const segments = path.split("/");
+  if (segments.some((segment) => segment === "") || segments.length % 2 !== 0) {
+    throw new Error(`${label} must be a document path with an even number of segments (e.g. 'users/abc'), got '${value}'.`);
+  }
+
+  return path;
+}
+
+export function parseCollectionPath(value: unknown, label: string): string {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${label} must be a non-empty string.`);
+  }
+
+  const path = value.trim().replace(/^\/+|\/+$/g, "");
+  const segments = path.split("/");
+  if (segments.some((segment) => segment === "") || segments.length % 2 !== 1) {
+    throw new Error(`${label} must be a collection path with an odd number of segments (e.g. 'users' or 'users/abc/orders'), got '${value}'.`);
+  }
+
+  return path;
+}
+
+export function parseFieldPathList(value: unknown, label: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${label} must be a non-empty array of field paths when provided.`);
+  }
+
+  return value.map((field, index) => {
+    if (typeof field !== "string" || field.trim() === "") {
+      throw new Error(`${label}[${index}] must be a non-empty string.`);
+    }
+    return field.trim();
+  });
+}
+
+export function parsePositiveInteger(value: unknown, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`${label} must be a positive integer when provided.`);
+  }
+
+  return value;
+}
+
+export type ToolErrorDetails = {
+  code: string;
+  message: string;
+  [key: string]: unknown;
+};
+
+/** Error result whose text carries a machine-readable JSON body after the message. */
+export function structuredErrorResult(details: ToolErrorDetails): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: [details.message, "", JSON.stringify({ error: details }, null, 2)].join("\n"),
+      },
+    ],
+    isError: true,
+  };
+}
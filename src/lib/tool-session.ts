@@ -0,0 +1,72 @@
+import { randomBytes, randomUUID } from "node:crypto";
+
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+type PendingConfirmation = {
+  /** Caller (or anonymous session) the token was issued to; stateless servers share one ToolSession. */
+  owner: string;
+  fingerprint: string;
+  paths: string[];
+  expiresAt: number;
+};
+
+export type ConfirmationCheck =
+  | { status: "valid"; paths: string[] }
+  | { status: "unknown" | "expired" | "mismatch" };
+
+/**
+ * State scoped to one MCP session. createMcpServer creates one per server instance, which
+ * means one per SSE session and one per process for stdio and stateless Streamable HTTP.
+ * Confirmation tokens live in process memory and do not carry over to other server instances.
+ */
+export class ToolSession {
+  /** Keys the read budget of sessions without an authenticated caller. */
+  readonly id = randomUUID();
+  private readonly confirmations = new Map<string, PendingConfirmation>();
+
+  /** `shared` marks a session that serves many clients (stateless Streamable HTTP), so it cannot tell anonymous callers apart. */
+  constructor(readonly shared = false) {}
+
+  /** Issues a single-use token that authorizes committing exactly the previewed request. */
+  issueConfirmation(owner: string, fingerprint: string, paths: string[]): { token: string; expiresAt: Date } {
+    this.pruneConfirmations();
+
+    const token = randomBytes(12).toString("base64url");
+    const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+    this.confirmations.set(token, { owner, fingerprint, paths, expiresAt });
+
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Tokens are consumed on every check, so a mismatched or replayed token needs a fresh preview.
+   * Another owner's token is reported as unknown and left for its owner.
+   */
+  consumeConfirmation(owner: string, token: string, fingerprint: string): ConfirmationCheck {
+    const pending = this.confirmations.get(token);
+    if (!pending || pending.owner !== owner) {
+      return { status: "unknown" };
+    }
+
+    this.confirmations.delete(token);
+
+    if (pending.expiresAt < Date.now()) {
+      return { status: "expired" };
+    }
+
+    if (pending.fingerprint !== fingerprint) {
+      return { status: "mismatch" };
+    }
+
+    return { status: "valid", paths: pending.paths };
+  }
+
+  private pruneConfirmations(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.confirmations) {
+      if (pending.expiresAt < now) {
+        this.confirmations.delete(token);
+      }
+    }
+  }
+}
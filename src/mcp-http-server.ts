@@ -3,7 +3,6 @@
 import dotenv from "dotenv";
 dotenv.config();
 
-import cors from "cors";
 import express from "express";
 import type { Request, Response } from "express";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -11,10 +10,21 @@ import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { createMcpServer } from "./lib/mcp-server.js";
 import { getFirestore } from "./lib/firestore-client.js";
 import { FirestoreToolExecutor } from "./lib/firestore-tools.js";
+import {
+  createAuthMiddleware,
+  createCorsMiddleware,
+  createRateLimitMiddleware,
+  getRequestCaller,
+  loadApiKeys,
+  resolveCorsOrigins,
+  sendForbidden,
+} from "./lib/http-auth.js";
 
 type SessionEntry = {
   transport: SSEServerTransport;
   server: Server;
+  /** Label of the API key that opened the session; later messages must use the same key. */
+  caller?: string;
 };
 
 class FirestoreSseServer {
@@ -28,15 +38,12 @@ class FirestoreSseServer {
   }
 
   private configureMiddleware(): void {
-    this.app.use(
-      cors({
-        origin: "*",
-        methods: ["GET", "POST", "DELETE", "OPTIONS"],
-        allowedHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id"],
-      }),
-    );
+    const corsOrigins = resolveCorsOrigins();
 
+    this.app.use(createCorsMiddleware(corsOrigins));
     this.app.use(express.json({ limit: "4mb" }));
+    this.app.use("/mcp", createAuthMiddleware({ apiKeys: loadApiKeys(), corsOrigins }));
+    this.app.use("/mcp", createRateLimitMiddleware());
   }
 
   private configureRoutes(): void {
@@ -68,7 +75,7 @@ class FirestoreSseServer {
       server
         .connect(transport)
         .then(() => {
-          this.sessions.set(transport.sessionId, { transport, server });
+          this.sessions.set(transport.sessionId, { transport, server, caller: getRequestCaller(req) });
         })
         .catch((error) => {
           console.error("Failed to establish SSE session:", error);
@@ -93,6 +100,11 @@ class FirestoreSseServer {
         return;
       }
 
+      if (session.caller !== getRequestCaller(req)) {
+        sendForbidden(req, res, "the session was opened with a different API key.");
+        return;
+      }
+
       session.transport
         .handlePostMessage(req, res, req.body)
         .catch((error) => {
@@ -116,6 +128,11 @@ class FirestoreSseServer {
         return;
       }
 
+      if (session.caller !== getRequestCaller(req)) {
+        sendForbidden(req, res, "the session was opened with a different API key.");
+        return;
+      }
+
       this.sessions.delete(sessionId);
       await session.transport.close().catch((error) => {
         console.error("Error closing SSE session:", error);
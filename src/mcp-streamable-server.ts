@@ -3,23 +3,72 @@
 import dotenv from "dotenv";
 dotenv.config();
 
-import cors from "cors";
+import { randomUUID } from "node:crypto";
 import express from "express";
 import type { Request, Response } from "express";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { createMcpServer } from "./lib/mcp-server.js";
+import { resolveSessionIdleMs } from "./lib/resource-subscriptions.js";
 import { getFirestore } from "./lib/firestore-client.js";
 import { FirestoreToolExecutor } from "./lib/firestore-tools.js";
+import {
+  createAuthMiddleware,
+  createCorsMiddleware,
+  createRateLimitMiddleware,
+  getRequestCaller,
+  loadApiKeys,
+  resolveCorsOrigins,
+  sendForbidden,
+} from "./lib/http-auth.js";
+import {
+  JwtAccessTokenVerifier,
+  createProtectedResourceMetadataHandler,
+  getProtectedResourceMetadataPaths,
+  getProtectedResourceMetadataUrl,
+  resolveOAuthSettings,
+} from "./lib/oauth.js";
+
+type SessionEntry = {
+  transport: StreamableHTTPServerTransport;
+  /** Label of the caller that opened the session; later requests must come from the same caller. */
+  caller?: string;
+  /** Requests still being answered, including long-lived GET streams that carry notifications. */
+  openRequests: number;
+  lastSeen: number;
+};
 
 const app = express();
+const executor = new FirestoreToolExecutor(getFirestore());
+
+// Stateless by default so the server runs on serverless hosts; stateful sessions enable resource subscriptions.
+const statefulSessions = process.env.FIRESTORE_MCP_STATEFUL_SESSIONS === "true";
+const sessions = new Map<string, SessionEntry>();
+
+if (statefulSessions) {
+  const idleMs = resolveSessionIdleMs();
+  // Closing the transport closes its server, which detaches the session's listeners.
+  setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && now - session.lastSeen >= idleMs) {
+        sessions.delete(id);
+        void session.transport.close();
+      }
+    }
+  }, Math.min(idleMs, 60 * 1000)).unref();
+}
+
 const transport = new StreamableHTTPServerTransport({
   sessionIdGenerator: undefined,
 });
-const server = createMcpServer(new FirestoreToolExecutor(getFirestore()));
-const serverReady = server.connect(transport).catch((error) => {
-  console.error("Failed to initialize MCP server:", error);
-  throw error;
-});
+const server = createMcpServer(executor, { subscriptions: false, sharedSession: true });
+const serverReady = statefulSessions
+  ? Promise.resolve()
+  : server.connect(transport).catch((error) => {
+      console.error("Failed to initialize MCP server:", error);
+      throw error;
+    });
 
 transport.onerror = (error) => {
   console.error("Streamable HTTP transport error:", error);
@@ -29,17 +78,35 @@ transport.onclose = () => {
   console.warn("Streamable HTTP transport closed");
 };
 
-app.use(
-  cors({
-    origin: "*",
-    methods: ["GET", "POST", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id"],
-  }),
-);
+const corsOrigins = resolveCorsOrigins();
+const oauthSettings = resolveOAuthSettings(`http://localhost:${process.env.PORT ?? 3000}/mcp`);
+
+app.use(createCorsMiddleware(corsOrigins));
 
 app.use(express.raw({ type: "application/octet-stream", limit: "4mb" }));
 app.use(express.json({ limit: "4mb" }));
 
+if (oauthSettings) {
+  // MCP clients discover the authorization server from this document after a 401.
+  for (const path of getProtectedResourceMetadataPaths(oauthSettings)) {
+    app.get(path, createProtectedResourceMetadataHandler(oauthSettings));
+  }
+  console.log(`OAuth enabled: issuer ${oauthSettings.issuer}, resource ${oauthSettings.resource.href}`);
+}
+
+app.use(
+  "/mcp",
+  createAuthMiddleware({
+    apiKeys: loadApiKeys(),
+    corsOrigins,
+    oauth: oauthSettings && {
+      verifier: new JwtAccessTokenVerifier(oauthSettings),
+      resourceMetadataUrl: getProtectedResourceMetadataUrl(oauthSettings),
+    },
+  }),
+);
+app.use("/mcp", createRateLimitMiddleware());
+
 app.get("/health", (_req, res) => {
   res.json({
     status: "healthy",
@@ -56,6 +123,10 @@ app.options("/mcp", (_req, res) => {
 async function handleMcpRequest(req: Request, res: Response) {
   try {
     await serverReady;
+    if (statefulSessions) {
+      await handleSessionRequest(req, res);
+      return;
+    }
     await transport.handleRequest(req, res, req.body);
   } catch (error) {
     console.error("Error handling Streamable HTTP request:", error);
@@ -72,6 +143,58 @@ async function handleMcpRequest(req: Request, res: Response) {
   }
 }
 
+async function handleSessionRequest(req: Request, res: Response) {
+  const sessionId = req.header("mcp-session-id");
+  if (!sessionId) {
+    if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+      res.status(400).json({ error: "Missing mcp-session-id header" });
+      return;
+    }
+
+    const sessionTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, {
+          transport: sessionTransport,
+          caller: getRequestCaller(req),
+          openRequests: 0,
+          lastSeen: Date.now(),
+        });
+      },
+    });
+    sessionTransport.onerror = (error) => {
+      console.error("Streamable HTTP transport error:", error);
+    };
+    sessionTransport.onclose = () => {
+      if (sessionTransport.sessionId) {
+        sessions.delete(sessionTransport.sessionId);
+      }
+    };
+
+    await createMcpServer(executor).connect(sessionTransport);
+    await sessionTransport.handleRequest(req, res, req.body);
+    return;
+  }
+
+  const session = sessions.get(sessionId);
+  if (!session) {
+    res.status(404).json({ error: "Unknown mcp-session-id" });
+    return;
+  }
+
+  if (session.caller !== getRequestCaller(req)) {
+    sendForbidden(req, res, "the session was opened with a different API key.");
+    return;
+  }
+
+  session.openRequests += 1;
+  res.on("close", () => {
+    session.openRequests -= 1;
+    session.lastSeen = Date.now();
+  });
+  await session.transport.handleRequest(req, res, req.body);
+}
+
 app.post("/mcp", (req, res) => {
   void handleMcpRequest(req, res);
 });